@@ -0,0 +1,1588 @@
+/**
+ * Generic Functions for Homebridge Node
+ * Centralized helper functions following n8n best practices
+ */
+
+import { createHash, createHmac } from 'crypto';
+import {
+	DeclarativeRestApiSettings,
+	ICredentialDataDecryptedObject,
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IDataObject,
+	IExecutePaginationFunctions,
+	IExecuteSingleFunctions,
+	IHttpRequestHelper,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	IN8nHttpFullResponse,
+	INodeCredentialTestResult,
+	INodeExecutionData,
+	INodeListSearchItems,
+	INodeListSearchResult,
+	INodePropertyOptions,
+	IPollFunctions,
+	ITriggerFunctions,
+	JsonObject,
+	NodeApiError,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import {
+	IAccessory,
+	IAuthLoginRequest,
+	IAuthLoginResponse,
+	IAuthSettings,
+	ICachedToken,
+	ICharacteristic,
+	IChildBridge,
+	IRoom,
+} from './types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const TOTP_PERIOD = 30; // seconds, RFC 6238 default used by Homebridge UI
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SCENE_CACHE_KEY = 'homebridgeScenes';
+const TOKEN_REFRESH_MARGIN = 60 * 1000; // refresh tokens 1 minute before they expire
+const DEFAULT_TOKEN_LIFETIME = 8 * 60 * 60; // seconds, Homebridge UI default session timeout
+const INTEGER_FORMATS = ['uint8', 'uint16', 'uint32', 'uint64', 'int'];
+const TRUE_VALUES = ['true', '1', 'on', 'yes'];
+const FALSE_VALUES = ['false', '0', 'off', 'no'];
+const MIN_AGENT_OPTIONS_VERSION = [2, 20, 0]; // n8n-core passing agentOptions of httpRequest to the HTTPS agent
+
+// Contexts that can send authenticated requests with the credential
+type HomebridgeFunctions = IExecuteSingleFunctions | IPollFunctions | ITriggerFunctions | ILoadOptionsFunctions;
+
+// Tokens by credential, kept in memory only so they never end up in workflow data
+// that anyone able to edit the workflow can read
+const tokenCache = new Map<string, ICachedToken>();
+
+// Version of the running n8n-core, looked up once
+let n8nCoreVersion: string | null | undefined;
+
+// Logins in progress, so items processed in parallel share a single login
+const pendingLogins = new Map<string, Promise<ICachedToken>>();
+
+// Routed requests sent with a bearer token, keyed by the item context that sent them,
+// so the response hook can replay them after logging in again
+const authorizedRequests = new WeakMap<IExecuteSingleFunctions, IHttpRequestOptions>();
+
+// Failed logins to the credential server of routed requests sent to additional servers,
+// reported in the item of that server instead of failing the whole item
+const failedLogins = new WeakMap<IHttpRequestOptions, Error>();
+
+// =============================================================================
+// AUTHENTICATION HELPERS
+// =============================================================================
+
+/**
+ * Get the server URL from the credentials, including the reverse-proxy base path
+ * @param credentials - Homebridge credentials
+ * @returns Normalized server URL without a trailing slash
+ */
+export function getServerUrl(credentials: ICredentialDataDecryptedObject): string {
+	const serverUrl = (credentials.serverUrl as string).replace(/\/+$/, '');
+	const basePath = ((credentials.basePath as string) ?? '').trim().replace(/^\/+|\/+$/g, '');
+
+	return basePath ? `${serverUrl}/${basePath}` : serverUrl;
+}
+
+/**
+ * Get the custom headers configured on the credential, e.g. for a reverse proxy
+ * @param credentials - Homebridge credentials
+ * @returns Headers to add to every request
+ */
+export function getCustomHeaders(credentials: ICredentialDataDecryptedObject): IDataObject {
+	const customHeaders = credentials.customHeaders;
+	if (!customHeaders) {
+		return {};
+	}
+
+	let headers: unknown = customHeaders;
+	if (typeof customHeaders !== 'object') {
+		try {
+			headers = JSON.parse(customHeaders as string);
+		} catch (error) {
+			headers = undefined;
+		}
+	}
+
+	// Strings and arrays parse as JSON too, but would be spread into numbered headers
+	if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+		throw new Error('Custom Headers in the Homebridge credential must be a valid JSON object');
+	}
+
+	return headers as IDataObject;
+}
+
+/**
+ * Get the TLS options configured on the credential
+ * @param credentials - Homebridge credentials
+ * @returns Request options to trust a custom CA, present a client certificate or skip validation
+ */
+export function getTlsOptions(
+	credentials: ICredentialDataDecryptedObject,
+): Pick<IHttpRequestOptions, 'skipSslCertificateValidation' | 'agentOptions'> {
+	const tlsOptions: Pick<IHttpRequestOptions, 'skipSslCertificateValidation' | 'agentOptions'> = {};
+
+	if (credentials.allowUnauthorizedCerts) {
+		tlsOptions.skipSslCertificateValidation = true;
+	}
+
+	const agentOptions: NonNullable<IHttpRequestOptions['agentOptions']> = {};
+	if (credentials.caCertificate) {
+		agentOptions.ca = credentials.caCertificate as string;
+	}
+	if (credentials.clientCertificate && credentials.clientKey) {
+		agentOptions.cert = credentials.clientCertificate as string;
+		agentOptions.key = credentials.clientKey as string;
+	}
+	if (Object.keys(agentOptions).length) {
+		tlsOptions.agentOptions = agentOptions;
+	}
+
+	return tlsOptions;
+}
+
+/**
+ * Check that the running n8n sends the CA bundle and client certificate of a request.
+ * n8n-core only passes agentOptions of httpRequest to the HTTPS agent since 2.20.0,
+ * older versions drop them and the request fails certificate validation.
+ * @param tlsOptions - TLS options of the request
+ */
+export function assertAgentOptionsSupported(
+	tlsOptions: Pick<IHttpRequestOptions, 'agentOptions'>,
+): void {
+	if (!tlsOptions.agentOptions) {
+		return;
+	}
+
+	if (n8nCoreVersion === undefined) {
+		try {
+			// Resolved from n8n itself, this package does not depend on n8n-core
+			const packagePath = require.resolve('n8n-core/package.json', {
+				paths: [require.main?.filename ?? process.cwd()],
+			});
+			n8nCoreVersion = (require(packagePath) as { version: string }).version;
+		} catch (error) {
+			n8nCoreVersion = null;
+		}
+	}
+
+	// An unknown installation layout does not block the request
+	if (!n8nCoreVersion) {
+		return;
+	}
+
+	const version = n8nCoreVersion.split(/[.-]/).map(Number);
+	for (let i = 0; i < MIN_AGENT_OPTIONS_VERSION.length; i++) {
+		if (version[i] !== MIN_AGENT_OPTIONS_VERSION[i]) {
+			if (version[i] > MIN_AGENT_OPTIONS_VERSION[i]) {
+				return;
+			}
+			throw new Error(
+				`CA Certificate and Client Certificate in the Homebridge credential need n8n ${MIN_AGENT_OPTIONS_VERSION.join('.')} or later, this is n8n-core ${n8nCoreVersion}`,
+			);
+		}
+	}
+}
+
+/**
+ * Apply the connection settings of the credential to a request:
+ * base URL with path prefix, custom headers and TLS options
+ * @param credentials - Homebridge credentials
+ * @param requestOptions - Request to update
+ * @returns The updated request
+ */
+export function applyCredentialOptions(
+	credentials: ICredentialDataDecryptedObject,
+	requestOptions: IHttpRequestOptions,
+): IHttpRequestOptions {
+	requestOptions.baseURL = getServerUrl(credentials);
+	requestOptions.headers = {
+		...getCustomHeaders(credentials),
+		...requestOptions.headers,
+	};
+
+	const tlsOptions = getTlsOptions(credentials);
+	assertAgentOptionsSupported(tlsOptions);
+
+	return Object.assign(requestOptions, tlsOptions);
+}
+
+/**
+ * Check whether the credential should get its token from /api/auth/noauth
+ * @param credentials - Homebridge credentials
+ * @param settings - Authentication settings of the server, needed for automatic detection
+ * @returns True when the server runs without authentication
+ */
+export function usesNoAuth(
+	credentials: ICredentialDataDecryptedObject,
+	settings?: IAuthSettings,
+): boolean {
+	if (credentials.authMode === 'noauth') {
+		return true;
+	}
+
+	return credentials.authMode === 'auto' && settings?.formAuth === false;
+}
+
+/**
+ * Log in to the Homebridge UI and get an access token
+ * @param this - Any context able to send HTTP requests
+ * @param credentials - Homebridge credentials
+ * @returns Login response with the access token
+ */
+export async function homebridgeLogin(
+	this: IHttpRequestHelper,
+	credentials: ICredentialDataDecryptedObject,
+): Promise<IAuthLoginResponse> {
+	const serverUrl = getServerUrl(credentials);
+	const tlsOptions = getTlsOptions(credentials);
+	assertAgentOptionsSupported(tlsOptions);
+	const headers = {
+		...getCustomHeaders(credentials),
+		Accept: 'application/json',
+		'Content-Type': 'application/json',
+	};
+
+	let settings: IAuthSettings | undefined;
+	if (credentials.authMode === 'auto') {
+		settings = (await this.helpers.httpRequest({
+			method: 'GET',
+			url: `${serverUrl}/api/auth/settings`,
+			headers,
+			json: true,
+			...tlsOptions,
+		})) as IAuthSettings;
+	}
+
+	const noAuth = usesNoAuth(credentials, settings);
+	const response = (await this.helpers.httpRequest({
+		method: 'POST',
+		url: `${serverUrl}${noAuth ? '/api/auth/noauth' : '/api/auth/login'}`,
+		headers,
+		body: noAuth ? {} : getLoginBody(credentials),
+		json: true,
+		...tlsOptions,
+	})) as IAuthLoginResponse;
+
+	if (!response?.access_token) {
+		throw new Error('Login successful but no access token received from Homebridge');
+	}
+
+	return response;
+}
+
+/**
+ * Build the body of a login request from the credentials
+ * @param credentials - Homebridge credentials
+ * @returns Login request body
+ */
+export function getLoginBody(credentials: ICredentialDataDecryptedObject): IAuthLoginRequest {
+	const body: IAuthLoginRequest = {
+		username: credentials.username as string,
+		password: credentials.password as string,
+	};
+
+	const otp = getLoginOtp(credentials);
+	if (otp) {
+		body.otp = otp;
+	}
+
+	return body;
+}
+
+/**
+ * Get the expiry timestamp of a token returned by the login endpoint
+ * @param response - Login response
+ * @returns Expiry as epoch milliseconds
+ */
+export function getTokenExpiry(response: IAuthLoginResponse): number {
+	return Date.now() + (response.expires_in || DEFAULT_TOKEN_LIFETIME) * 1000;
+}
+
+/**
+ * Get a valid access token for the credential, logging in only when needed.
+ * Tokens are cached in memory per server and account, so they are shared across
+ * items and executions without being stored in the workflow.
+ * @param this - n8n execution context
+ * @param credentials - Homebridge credentials
+ * @param rejectedToken - Token the server just refused, forces a new login
+ * @returns Access token
+ */
+export async function getAccessToken(
+	this: HomebridgeFunctions,
+	credentials: ICredentialDataDecryptedObject,
+	rejectedToken?: string,
+): Promise<string> {
+	const cacheKey = getTokenCacheKey(credentials);
+
+	// After a 401 no cached token is trusted, the server may have invalidated all of them
+	const cached = tokenCache.get(cacheKey);
+	if (rejectedToken !== undefined) {
+		tokenCache.delete(cacheKey);
+	} else if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN > Date.now()) {
+		return cached.accessToken;
+	}
+
+	let login = pendingLogins.get(cacheKey);
+	if (!login) {
+		login = homebridgeLogin
+			.call(this, credentials)
+			.then((response) => ({
+				accessToken: response.access_token,
+				expiresAt: getTokenExpiry(response),
+			}))
+			.finally(() => pendingLogins.delete(cacheKey));
+		pendingLogins.set(cacheKey, login);
+	}
+	const token = await login;
+
+	// Drop expired entries so the cache does not grow with old servers or users
+	for (const [key, entry] of tokenCache) {
+		if (entry.expiresAt <= Date.now()) {
+			tokenCache.delete(key);
+		}
+	}
+	tokenCache.set(cacheKey, token);
+
+	return token.accessToken;
+}
+
+/**
+ * Get the key of the credential in the token cache. It covers the password and
+ * TOTP secret, so a credential with the same server and username but other secrets
+ * never gets a token it could not obtain itself.
+ * @param credentials - Homebridge credentials
+ * @returns Hash of the server URL and account
+ */
+function getTokenCacheKey(credentials: ICredentialDataDecryptedObject): string {
+	return createHash('sha256')
+		.update(
+			[
+				getServerUrl(credentials),
+				credentials.authMode ?? '',
+				credentials.username ?? '',
+				credentials.password ?? '',
+				credentials.totpSecret ?? '',
+			].join('\n'),
+		)
+		.digest('hex');
+}
+
+/**
+ * Get the access token passed along by a previous Login operation in an item
+ * @param item - Input item being processed
+ * @returns Access token, or undefined if the item does not carry one
+ */
+export function getItemAccessToken(item?: INodeExecutionData): string | undefined {
+	const json = item?.json as IDataObject | IDataObject[] | undefined;
+	if (!json) {
+		return undefined;
+	}
+
+	// Check if access_token is in an array
+	if (Array.isArray(json)) {
+		return (json[0]?.access_token as string) || undefined;
+	}
+
+	return (json.access_token as string) || undefined;
+}
+
+/**
+ * Get the 2FA code to send with a login request
+ * @param credentials - Homebridge credentials
+ * @returns Code generated from the TOTP secret, the static code, or undefined
+ */
+export function getLoginOtp(credentials: ICredentialDataDecryptedObject): string | undefined {
+	if (credentials.totpSecret) {
+		return generateTotp(credentials.totpSecret as string);
+	}
+
+	return (credentials.otp as string) || undefined;
+}
+
+// =============================================================================
+// CREDENTIAL TEST
+// =============================================================================
+
+/**
+ * Test the credential with a real login, then check the token and read the instance name
+ * @param this - n8n credential test context
+ * @param credential - Decrypted credential to test
+ * @returns Test result with a message describing what failed or where we connected
+ */
+export async function homebridgeApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const credentials = credential.data as ICredentialDataDecryptedObject;
+	const serverUrl = getServerUrl(credentials);
+	const { skipSslCertificateValidation, agentOptions } = getTlsOptions(credentials);
+	const tlsOptions = { rejectUnauthorized: !skipSslCertificateValidation, agentOptions };
+	const headers = getCustomHeaders(credentials);
+
+	// The test uses the legacy request helper, which always sends the certificates,
+	// while the node needs a version of n8n that does
+	try {
+		assertAgentOptionsSupported({ agentOptions });
+	} catch (error) {
+		return { status: 'Error', message: error.message };
+	}
+
+	// The public settings endpoint tells whether the server is reachable and how it authenticates
+	let settings: IAuthSettings;
+	try {
+		settings = await this.helpers.request({
+			method: 'GET',
+			uri: `${serverUrl}/api/auth/settings`,
+			headers,
+			json: true,
+			...tlsOptions,
+		});
+	} catch (error) {
+		return { status: 'Error', message: `Server not reachable at ${serverUrl}: ${error.message}` };
+	}
+
+	const noAuth = usesNoAuth(credentials, settings);
+	let loginResponse: IAuthLoginResponse;
+	try {
+		loginResponse = await this.helpers.request({
+			method: 'POST',
+			uri: `${serverUrl}${noAuth ? '/api/auth/noauth' : '/api/auth/login'}`,
+			headers,
+			body: noAuth ? {} : getLoginBody(credentials),
+			json: true,
+			...tlsOptions,
+		});
+	} catch (error) {
+		const statusCode = error.statusCode ?? error.response?.statusCode;
+		const serverMessage = String(error.error?.message ?? error.response?.body?.message ?? '');
+
+		if (noAuth && (statusCode === 401 || statusCode === 403)) {
+			return {
+				status: 'Error',
+				message: `Authentication is enabled on ${serverUrl}: use Username and Password mode`,
+			};
+		}
+
+		// Homebridge UI answers 412 for missing or wrong 2FA codes
+		if (statusCode === 412 && /required/i.test(serverMessage)) {
+			return {
+				status: 'Error',
+				message: '2FA required: add a Two-Factor Authentication Code or a TOTP Secret',
+			};
+		}
+		if (statusCode === 412) {
+			return {
+				status: 'Error',
+				message: '2FA code wrong or expired: check the code or the TOTP Secret and the server clock',
+			};
+		}
+		if (statusCode === 401 || statusCode === 403) {
+			return { status: 'Error', message: 'Bad credentials: invalid username or password' };
+		}
+		return {
+			status: 'Error',
+			message: `Could not log in to ${serverUrl}: ${serverMessage || error.message}`,
+		};
+	}
+
+	try {
+		await this.helpers.request({
+			method: 'GET',
+			uri: `${serverUrl}/api/auth/check`,
+			headers: { ...headers, Authorization: `Bearer ${loginResponse.access_token}` },
+			json: true,
+			...tlsOptions,
+		});
+	} catch (error) {
+		return {
+			status: 'Error',
+			message: `Logged in, but the token was rejected by /api/auth/check: ${error.message}`,
+		};
+	}
+
+	const instanceName = settings.env?.homebridgeInstanceName ?? '';
+	return {
+		status: 'OK',
+		message: instanceName
+			? `Server reachable, authenticated on "${instanceName}"`
+			: 'Server reachable, authentication successful',
+	};
+}
+
+// =============================================================================
+// HTTP REQUEST HELPERS
+// =============================================================================
+
+/**
+ * Make an authenticated request to the Homebridge API outside of routed operations,
+ * e.g. from triggers. Logs in with the credential when needed and replays once on 401.
+ * @param this - n8n context
+ * @param method - HTTP method
+ * @param endpoint - API endpoint, starting with /api
+ * @param body - Request body
+ * @param qs - Query string parameters
+ * @param options - Additional request options, e.g. a timeout
+ * @returns Response body
+ */
+export async function homebridgeApiRequest(
+	this: HomebridgeFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body?: IDataObject,
+	qs?: IDataObject,
+	options: Partial<IHttpRequestOptions> = {},
+): Promise<IDataObject | IDataObject[]> {
+	const credentials = await this.getCredentials('homebridgeApi');
+	const accessToken = await getAccessToken.call(this, credentials);
+
+	const requestOptions = applyCredentialOptions(credentials, {
+		method,
+		url: endpoint,
+		headers: {
+			Accept: 'application/json',
+			Authorization: `Bearer ${accessToken}`,
+		},
+		...(body && { body }),
+		...(qs && { qs }),
+		...options,
+		json: true,
+		returnFullResponse: true,
+		ignoreHttpStatusErrors: true,
+	});
+
+	let response = (await this.helpers.httpRequest(requestOptions)) as IN8nHttpFullResponse;
+	response = await replayIfUnauthorized.call(this, credentials, requestOptions, response);
+
+	if (response.statusCode >= 400) {
+		throw handleApiError.call(this, response, requestOptions);
+	}
+
+	return response.body as IDataObject | IDataObject[];
+}
+
+/**
+ * Convert the value of a Set Characteristic request to the format of the characteristic,
+ * after checking that the accessory has it and that it can be written
+ * @param this - n8n execution context of the item
+ * @param requestOptions - Request options with characteristicType and value in the body
+ * @returns The updated request options
+ */
+export async function prepareCharacteristicValue(
+	this: IExecuteSingleFunctions,
+	requestOptions: IHttpRequestOptions,
+): Promise<IHttpRequestOptions> {
+	const uniqueId = this.getNodeParameter('uniqueId', '', { extractValue: true }) as string;
+	const body = requestOptions.body as IDataObject;
+
+	const accessory = (await homebridgeApiRequest.call(
+		this,
+		'GET',
+		`/api/accessories/${encodeURIComponent(uniqueId)}`,
+	)) as IAccessory;
+
+	try {
+		const characteristic = getWritableCharacteristic(accessory, body.characteristicType as string);
+		body.characteristicType = characteristic.type;
+		body.value = coerceCharacteristicValue(characteristic, body.value);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), error.message, { itemIndex: this.getItemIndex() });
+	}
+
+	return requestOptions;
+}
+
+/**
+ * Set several characteristics of the accessory returned by a routed request, one
+ * after the other in the order they were given, and report the result of each
+ * @param this - n8n execution context of the item
+ * @param items - The accessory returned by the routed request
+ * @returns One item with the result of every characteristic
+ */
+export async function setCharacteristics(
+	this: IExecuteSingleFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	let accessory = items[0].json as IAccessory;
+	const pairs = this.getNodeParameter('characteristics.characteristic', []) as IDataObject[];
+	const stopOnFailure = this.getNodeParameter('onFailure', 'stop') === 'stop';
+
+	const results: IDataObject[] = [];
+	let failed = false;
+	for (const pair of pairs) {
+		const result: IDataObject = { characteristicType: pair.characteristicType, value: pair.value };
+		results.push(result);
+
+		if (failed && stopOnFailure) {
+			result.success = false;
+			result.skipped = true;
+			continue;
+		}
+
+		try {
+			const characteristic = getWritableCharacteristic(accessory, pair.characteristicType as string);
+			result.characteristicType = characteristic.type;
+			result.value = coerceCharacteristicValue(characteristic, pair.value);
+
+			accessory = (await homebridgeApiRequest.call(
+				this,
+				'PUT',
+				`/api/accessories/${encodeURIComponent(accessory.uniqueId)}`,
+				{ characteristicType: result.characteristicType, value: result.value },
+			)) as IAccessory;
+			result.success = true;
+		} catch (error) {
+			failed = true;
+			result.success = false;
+			result.error = error.message;
+		}
+	}
+
+	return [
+		{
+			json: {
+				uniqueId: accessory.uniqueId,
+				serviceName: accessory.serviceName,
+				success: !failed,
+				results,
+				accessory,
+			},
+		},
+	];
+}
+
+/**
+ * Set a characteristic on every accessory of a room, optionally limited to some service
+ * types, and report the result of each accessory
+ * @param this - n8n execution context of the item
+ * @param items - One item per accessory, as returned by the routed request
+ * @returns One item per accessory the characteristic was set on
+ */
+export async function controlRoom(
+	this: IExecuteSingleFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const roomName = this.getNodeParameter('room', '') as string;
+	const characteristicType = this.getNodeParameter('roomCharacteristicType', '') as string;
+	const value = this.getNodeParameter('roomValue', '');
+	const serviceTypes = (this.getNodeParameter('serviceTypes', '') as string)
+		.split(',')
+		.map((serviceType) => serviceType.trim().toLowerCase())
+		.filter((serviceType) => serviceType !== '');
+
+	const room = (await getLayoutRooms.call(this)).find((r) => r.name === roomName);
+	if (!room) {
+		throw new NodeOperationError(this.getNode(), `Room "${roomName}" not found in the accessory layout`, {
+			itemIndex: this.getItemIndex(),
+		});
+	}
+
+	const accessories = items
+		.map((item) => item.json as IAccessory)
+		.filter(
+			(accessory) =>
+				room.accessories?.includes(accessory.uniqueId) &&
+				(!serviceTypes.length ||
+					serviceTypes.includes(accessory.type?.toLowerCase()) ||
+					serviceTypes.includes(accessory.humanType?.toLowerCase())) &&
+				accessory.serviceCharacteristics?.some(
+					(c) => c.canWrite && c.type.toLowerCase() === characteristicType.toLowerCase(),
+				),
+		);
+	if (!accessories.length) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`No accessory in room "${roomName}" has a writable ${characteristicType} characteristic`,
+			{ itemIndex: this.getItemIndex() },
+		);
+	}
+
+	const results: INodeExecutionData[] = [];
+	for (const accessory of accessories) {
+		const result: IDataObject = {
+			uniqueId: accessory.uniqueId,
+			serviceName: accessory.serviceName,
+			type: accessory.type,
+			room: room.name,
+			characteristicType,
+			value,
+		};
+
+		try {
+			const characteristic = getWritableCharacteristic(accessory, characteristicType);
+			result.characteristicType = characteristic.type;
+			result.value = coerceCharacteristicValue(characteristic, value);
+
+			await homebridgeApiRequest.call(
+				this,
+				'PUT',
+				`/api/accessories/${encodeURIComponent(accessory.uniqueId)}`,
+				{ characteristicType: result.characteristicType, value: result.value },
+			);
+			result.success = true;
+		} catch (error) {
+			result.success = false;
+			result.error = error.message;
+		}
+
+		results.push({ json: result });
+	}
+
+	return results;
+}
+
+/**
+ * Keep only the accessories matching the filters of the Find Accessories operation
+ * @param this - n8n execution context of the item
+ * @param items - One item per accessory, as returned by the routed request
+ * @returns The matching accessories
+ */
+export async function findAccessories(
+	this: IExecuteSingleFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const filters = this.getNodeParameter('filters', {}) as IDataObject;
+	const conditions = this.getNodeParameter('valueConditions.condition', []) as IDataObject[];
+
+	let namePattern: RegExp | undefined;
+	if (filters.name) {
+		try {
+			namePattern = filters.nameIsRegex
+				? new RegExp(filters.name as string, 'i')
+				: new RegExp((filters.name as string).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Invalid name pattern: ${error.message}`, {
+				itemIndex: this.getItemIndex(),
+			});
+		}
+	}
+
+	let roomAccessories: string[] | undefined;
+	if (filters.room) {
+		const room = (await getLayoutRooms.call(this)).find((r) => r.name === filters.room);
+		roomAccessories = room?.accessories ?? [];
+	}
+
+	const types = String(filters.type ?? '')
+		.split(',')
+		.map((type) => type.trim().toLowerCase())
+		.filter((type) => type !== '');
+
+	// Accessories only name their bridge, child bridges tell which plugin runs them
+	let bridgePlugins: Record<string, string> | undefined;
+	const plugins = String(filters.plugin ?? '')
+		.split(',')
+		.map((plugin) => plugin.trim().toLowerCase())
+		.filter((plugin) => plugin !== '');
+	if (plugins.length) {
+		const childBridges = (await homebridgeApiRequest.call(
+			this,
+			'GET',
+			'/api/status/homebridge/child-bridges',
+		)) as IChildBridge[];
+		bridgePlugins = {};
+		for (const bridge of childBridges) {
+			bridgePlugins[normalizeBridgeUsername(bridge.username)] = bridge.plugin.toLowerCase();
+		}
+	}
+
+	// Rows without a characteristic are left over from editing, not conditions
+	const activeConditions = conditions.filter((condition) => String(condition.characteristic ?? '').trim());
+
+	return items.filter((item) => {
+		const accessory = item.json as IAccessory;
+		const information = (accessory.accessoryInformation ?? {}) as IDataObject;
+		const instance = (accessory.instance ?? {}) as IDataObject;
+
+		return (
+			(!namePattern || namePattern.test(accessory.serviceName ?? '')) &&
+			(!types.length ||
+				types.includes(accessory.type?.toLowerCase()) ||
+				types.includes(accessory.humanType?.toLowerCase())) &&
+			(!roomAccessories || roomAccessories.includes(accessory.uniqueId)) &&
+			(!filters.manufacturer ||
+				String(information.Manufacturer ?? '')
+					.toLowerCase()
+					.includes((filters.manufacturer as string).toLowerCase())) &&
+			(!filters.bridge ||
+				[instance.name, instance.username].some(
+					(value) => String(value ?? '').toLowerCase() === (filters.bridge as string).toLowerCase(),
+				)) &&
+			(!bridgePlugins ||
+				plugins.includes(bridgePlugins[normalizeBridgeUsername(instance.username)])) &&
+			activeConditions.every((condition) => matchesValueCondition(accessory, condition))
+		);
+	});
+}
+
+/**
+ * Normalize a bridge username, which is shown with or without colons
+ * @param username - Bridge username, e.g. 0E:3C:22:18:FD:0A
+ * @returns Uppercase username without separators
+ */
+function normalizeBridgeUsername(username: unknown): string {
+	return String(username ?? '')
+		.replace(/[^0-9a-f]/gi, '')
+		.toUpperCase();
+}
+
+/**
+ * Check a characteristic value condition such as BatteryLevel < 20
+ * @param accessory - Accessory service from /api/accessories
+ * @param condition - Characteristic, operator and value to compare with
+ * @returns True when the accessory has the characteristic and its value matches
+ */
+function matchesValueCondition(accessory: IAccessory, condition: IDataObject): boolean {
+	const values = accessory.values ?? {};
+	const key = Object.keys(values).find(
+		(type) => type.toLowerCase() === String(condition.characteristic).toLowerCase(),
+	);
+	if (key === undefined) {
+		return false;
+	}
+
+	const actual = values[key];
+	const text = String(condition.value).trim().toLowerCase();
+	let expected: unknown = condition.value;
+	if (typeof actual === 'boolean' && (TRUE_VALUES.includes(text) || FALSE_VALUES.includes(text))) {
+		expected = TRUE_VALUES.includes(text);
+	} else if (typeof actual === 'number' && text !== '' && !isNaN(Number(text))) {
+		expected = Number(text);
+	}
+
+	switch (condition.operator) {
+		case 'notEqual':
+			return String(actual) !== String(expected);
+		case 'lt':
+			return Number(actual) < Number(expected);
+		case 'lte':
+			return Number(actual) <= Number(expected);
+		case 'gt':
+			return Number(actual) > Number(expected);
+		case 'gte':
+			return Number(actual) >= Number(expected);
+		default:
+			return String(actual) === String(expected);
+	}
+}
+
+/**
+ * Capture the writable characteristic values of the selected accessories as a scene,
+ * stored in the workflow static data or only returned as an item
+ * @param this - n8n execution context of the item
+ * @param items - One item per accessory, as returned by the routed request
+ * @returns The scene
+ */
+export async function saveScene(
+	this: IExecuteSingleFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const sceneName = this.getNodeParameter('sceneName', '') as string;
+	const storage = this.getNodeParameter('sceneStorage', 'staticData') as string;
+	const roomName = this.getNodeParameter('sceneRoom', '') as string;
+	const selection = (this.getNodeParameter('sceneAccessories', '') as string)
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry) => entry !== '');
+
+	let roomAccessories: string[] | undefined;
+	if (roomName) {
+		const room = (await getLayoutRooms.call(this)).find((r) => r.name === roomName);
+		roomAccessories = room?.accessories ?? [];
+	}
+
+	const accessories: IDataObject[] = [];
+	for (const item of items) {
+		const accessory = item.json as IAccessory;
+		if (
+			(roomAccessories && !roomAccessories.includes(accessory.uniqueId)) ||
+			(selection.length &&
+				!selection.includes(accessory.uniqueId.toLowerCase()) &&
+				!selection.includes(accessory.serviceName?.toLowerCase()))
+		) {
+			continue;
+		}
+
+		const values: IDataObject = {};
+		for (const characteristic of accessory.serviceCharacteristics ?? []) {
+			if (characteristic.canWrite && characteristic.value !== null && characteristic.value !== undefined) {
+				values[characteristic.type] = characteristic.value;
+			}
+		}
+		if (Object.keys(values).length) {
+			accessories.push({ uniqueId: accessory.uniqueId, serviceName: accessory.serviceName, values });
+		}
+	}
+
+	const scene: IDataObject = { scene: sceneName, savedAt: new Date().toISOString(), accessories };
+
+	// Global static data, so another node of the workflow can restore the scene
+	if (storage === 'staticData') {
+		const staticData = this.getWorkflowStaticData('global');
+		const scenes = (staticData[SCENE_CACHE_KEY] ?? {}) as IDataObject;
+		scenes[sceneName] = scene;
+		staticData[SCENE_CACHE_KEY] = scenes;
+	}
+
+	return [{ json: scene }];
+}
+
+/**
+ * Restore a scene saved by Save Scene, setting only the values that differ from the
+ * current ones and skipping characteristics that are no longer writable
+ * @param this - n8n execution context of the item
+ * @param items - One item per accessory, as returned by the routed request
+ * @returns One item per accessory of the scene with the result of every characteristic
+ */
+export async function restoreScene(
+	this: IExecuteSingleFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const source = this.getNodeParameter('sceneSource', 'staticData') as string;
+
+	let scene: IDataObject | undefined;
+	if (source === 'staticData') {
+		const sceneName = this.getNodeParameter('sceneName', '') as string;
+		const scenes = (this.getWorkflowStaticData('global')[SCENE_CACHE_KEY] ?? {}) as IDataObject;
+		scene = scenes[sceneName] as IDataObject | undefined;
+		if (!scene) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Scene "${sceneName}" not found. Scenes are only kept by active workflows, or pass the scene as an item.`,
+				{ itemIndex: this.getItemIndex() },
+			);
+		}
+	} else {
+		const sceneData = this.getNodeParameter('sceneData', {});
+		try {
+			scene = (typeof sceneData === 'string' ? JSON.parse(sceneData) : sceneData) as IDataObject;
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'Scene must be valid JSON', {
+				itemIndex: this.getItemIndex(),
+			});
+		}
+	}
+
+	const currentAccessories: Record<string, IAccessory> = {};
+	for (const item of items) {
+		const accessory = item.json as IAccessory;
+		currentAccessories[accessory.uniqueId] = accessory;
+	}
+
+	const output: INodeExecutionData[] = [];
+	for (const saved of (scene.accessories ?? []) as IDataObject[]) {
+		const accessory = currentAccessories[saved.uniqueId as string];
+		if (!accessory) {
+			output.push({
+				json: { ...saved, success: false, error: 'Accessory no longer exists', results: [] },
+			});
+			continue;
+		}
+
+		const results: IDataObject[] = [];
+		for (const [characteristicType, value] of Object.entries((saved.values ?? {}) as IDataObject)) {
+			const result: IDataObject = { characteristicType, value };
+			results.push(result);
+
+			const characteristic = accessory.serviceCharacteristics?.find((c) => c.type === characteristicType);
+			if (!characteristic) {
+				Object.assign(result, { success: true, skipped: true, reason: 'missing' });
+				continue;
+			}
+			if (!characteristic.canWrite) {
+				Object.assign(result, { success: true, skipped: true, reason: 'read-only' });
+				continue;
+			}
+			if (characteristic.value === value) {
+				Object.assign(result, { success: true, skipped: true, reason: 'unchanged' });
+				continue;
+			}
+
+			try {
+				result.value = coerceCharacteristicValue(characteristic, value);
+				await homebridgeApiRequest.call(
+					this,
+					'PUT',
+					`/api/accessories/${encodeURIComponent(accessory.uniqueId)}`,
+					{ characteristicType, value: result.value },
+				);
+				result.success = true;
+			} catch (error) {
+				result.success = false;
+				result.error = error.message;
+			}
+		}
+
+		output.push({
+			json: {
+				scene: scene.scene,
+				uniqueId: accessory.uniqueId,
+				serviceName: accessory.serviceName,
+				success: results.every((result) => result.success),
+				results,
+			},
+		});
+	}
+
+	return output;
+}
+
+/**
+ * Remember a routed request sent with a bearer token so it can be replayed on 401
+ * @param this - n8n execution context of the item
+ * @param requestOptions - Request options after authorization
+ */
+export function rememberAuthorizedRequest(
+	this: IExecuteSingleFunctions,
+	requestOptions: IHttpRequestOptions,
+): void {
+	// Error statuses are handled by handleRoutedResponse instead of failing the request
+	requestOptions.ignoreHttpStatusErrors = true;
+	authorizedRequests.set(this, requestOptions);
+}
+
+/**
+ * Remember that logging in to the credential server failed for a routed request
+ * sent to additional servers, so the error is reported with that server's result
+ * @param requestOptions - Request options of the routed request
+ * @param error - Login error
+ */
+export function rememberFailedLogin(requestOptions: IHttpRequestOptions, error: Error): void {
+	failedLogins.set(requestOptions, error);
+}
+
+/**
+ * Handle the response of a routed request. A 401 logs in again with the credential
+ * and replays the request once; remaining errors get a user-friendly message.
+ * @param this - n8n execution context of the item
+ * @param items - Items built from the response
+ * @param response - Full HTTP response
+ * @returns Output items
+ */
+export async function handleRoutedResponse(
+	this: IExecuteSingleFunctions,
+	items: INodeExecutionData[],
+	response: IN8nHttpFullResponse,
+): Promise<INodeExecutionData[]> {
+	const requestOptions = authorizedRequests.get(this);
+	authorizedRequests.delete(this);
+
+	if (requestOptions) {
+		const credentials = await this.getCredentials('homebridgeApi');
+		const replayed = await replayIfUnauthorized.call(this, credentials, requestOptions, response);
+		if (replayed !== response) {
+			response = replayed;
+			items = [{ json: response.body as JsonObject }];
+		}
+	}
+
+	if (response.statusCode >= 400) {
+		throw handleApiError.call(this, response, requestOptions);
+	}
+
+	// Keep the default routing behaviour of returning one item per array element
+	if (Array.isArray(response.body)) {
+		return response.body.map((json) => ({ json }));
+	}
+
+	return items;
+}
+
+/**
+ * Log in again and replay a request once if the server rejected its token
+ * @param this - n8n context that sent the request
+ * @param credentials - Credentials of the server the request was sent to
+ * @param requestOptions - Request that was sent
+ * @param response - Response to the request
+ * @returns Response of the replayed request, or the original response if it was not a 401
+ */
+async function replayIfUnauthorized(
+	this: HomebridgeFunctions,
+	credentials: ICredentialDataDecryptedObject,
+	requestOptions: IHttpRequestOptions,
+	response: IN8nHttpFullResponse,
+): Promise<IN8nHttpFullResponse> {
+	if (response.statusCode !== 401) {
+		return response;
+	}
+
+	const rejectedToken = String(requestOptions.headers?.Authorization ?? '').replace(/^Bearer /, '');
+	const accessToken = await getAccessToken.call(this, credentials, rejectedToken);
+
+	return (await this.helpers.httpRequest(
+		applyCredentialOptions(credentials, {
+			...requestOptions,
+			headers: {
+				...requestOptions.headers,
+				Authorization: `Bearer ${accessToken}`,
+			},
+			returnFullResponse: true,
+			ignoreHttpStatusErrors: true,
+		}),
+	)) as IN8nHttpFullResponse;
+}
+
+/**
+ * Send a routed request to the credential server and to each additional server, using
+ * the account and connection settings of the credential. Runs instead of the routed
+ * request when additional servers are set, so every server, the credential server
+ * included, reports a failed login or request in its own item.
+ * @param this - n8n execution context of the item
+ * @param requestData - Routed request, after the preSend hooks
+ * @returns One item per server
+ */
+export async function runOnAllServers(
+	this: IExecutePaginationFunctions,
+	requestData: DeclarativeRestApiSettings.ResultOptions,
+): Promise<INodeExecutionData[]> {
+	const credentials = await this.getCredentials('homebridgeApi');
+	const requestOptions = requestData.options as IHttpRequestOptions;
+	const servers = this.getNodeParameter('additionalServers.server', []) as IDataObject[];
+
+	// The credential server keeps the token set by preSend, e.g. from a Login node
+	const results: INodeExecutionData[] = [
+		{
+			json: await requestServer.call(
+				this,
+				{ serverUrl: credentials.serverUrl },
+				credentials,
+				requestOptions,
+				false,
+			),
+		},
+	];
+
+	for (const server of servers) {
+		const serverCredentials: ICredentialDataDecryptedObject = {
+			...credentials,
+			serverUrl: server.serverUrl as string,
+		};
+		results.push({
+			json: await requestServer.call(this, server, serverCredentials, requestOptions, true),
+		});
+	}
+
+	return results;
+}
+
+/**
+ * Send a routed request to one server of a multi-server run
+ * @param this - n8n execution context of the item
+ * @param server - Server with optional name and serverUrl
+ * @param serverCredentials - Credentials pointing to the server
+ * @param requestOptions - Routed request
+ * @param logIn - Whether to log in to the server, instead of using the token of the request
+ * @returns Output item data tagged with the server
+ */
+async function requestServer(
+	this: IExecuteSingleFunctions,
+	server: IDataObject,
+	serverCredentials: ICredentialDataDecryptedObject,
+	requestOptions: IHttpRequestOptions,
+	logIn: boolean,
+): Promise<IDataObject> {
+	const target: IDataObject = { name: server.name, url: server.serverUrl };
+
+	try {
+		target.url = getServerUrl(serverCredentials);
+		target.name = server.name || new URL(target.url as string).host;
+
+		let authorization = requestOptions.headers?.Authorization;
+		if (logIn) {
+			authorization = `Bearer ${await getAccessToken.call(this, serverCredentials)}`;
+		} else if (failedLogins.has(requestOptions)) {
+			throw failedLogins.get(requestOptions);
+		}
+
+		const serverRequest = applyCredentialOptions(serverCredentials, {
+			...requestOptions,
+			headers: {
+				...requestOptions.headers,
+				Authorization: authorization,
+			},
+			returnFullResponse: true,
+			ignoreHttpStatusErrors: true,
+		});
+
+		let response = (await this.helpers.httpRequest(serverRequest)) as IN8nHttpFullResponse;
+		response = await replayIfUnauthorized.call(this, serverCredentials, serverRequest, response);
+
+		return getServerResult.call(this, target, response, serverRequest);
+	} catch (error) {
+		return { server: target, success: false, error: error.message };
+	}
+}
+
+/**
+ * Build the output of one server in a multi-server run
+ * @param this - n8n execution context of the item
+ * @param server - Name and URL of the server
+ * @param response - Response of the server
+ * @param requestOptions - Request sent to the server
+ * @returns Output item data tagged with the server
+ */
+function getServerResult(
+	this: IExecuteSingleFunctions,
+	server: IDataObject,
+	response: IN8nHttpFullResponse,
+	requestOptions: IHttpRequestOptions,
+): IDataObject {
+	if (response.statusCode >= 400) {
+		const error = handleApiError.call(this, response, requestOptions);
+		return {
+			server,
+			success: false,
+			statusCode: response.statusCode,
+			error: error.message,
+			description: error.description,
+		};
+	}
+
+	return { server, success: true, data: response.body as IDataObject };
+}
+
+/**
+ * Handle API errors and provide user-friendly messages
+ * @param this - n8n execution context
+ * @param response - Full HTTP response with an error status
+ * @param requestOptions - Request that produced the response
+ * @returns NodeApiError
+ */
+function handleApiError(
+	this: HomebridgeFunctions,
+	response: IN8nHttpFullResponse,
+	requestOptions?: IHttpRequestOptions,
+): NodeApiError {
+	const statusCode = response.statusCode;
+	const errorBody = (response.body ?? {}) as JsonObject;
+	const endpoint = requestOptions?.url ?? '';
+	const method = requestOptions?.method ?? 'GET';
+
+	let message = `Homebridge API Error (${method} ${endpoint})`;
+	let description = (errorBody.message as string) || `Request failed with status code ${statusCode}`;
+
+	switch (statusCode) {
+		case 400:
+			message = 'Bad Request';
+			description = 'The request was invalid. Please check your parameters.';
+			break;
+		case 401:
+			message = 'Unauthorized';
+			description = 'Access token is invalid or expired. Please authenticate again.';
+			break;
+		case 403:
+			message = 'Forbidden';
+			description = 'You do not have permission to perform this action.';
+			break;
+		case 404:
+			message = 'Not Found';
+			description = 'The requested resource was not found.';
+			break;
+		case 422:
+			message = 'Validation Error';
+			description = 'The request data is invalid. ' + (errorBody.message || '');
+			break;
+		case 429:
+			message = 'Rate Limit Exceeded';
+			description = 'Too many requests. Please wait before trying again.';
+			break;
+		case 500:
+		case 502:
+		case 503:
+		case 504:
+			message = 'Server Error';
+			description = 'The Homebridge server encountered an error. Please try again later.';
+			break;
+	}
+
+	return new NodeApiError(this.getNode(), errorBody, {
+		message,
+		description,
+		httpCode: statusCode.toString(),
+	});
+}
+
+// =============================================================================
+// ACCESSORY HELPERS
+// =============================================================================
+
+/**
+ * Get the rooms of the accessory layout
+ * @param this - n8n context
+ * @returns Rooms with the unique IDs of their accessories
+ */
+export async function getLayoutRooms(this: HomebridgeFunctions): Promise<IRoom[]> {
+	const layout = (await homebridgeApiRequest.call(this, 'GET', '/api/accessories/layout')) as
+		| IRoom[]
+		| IDataObject;
+	const rooms = (Array.isArray(layout) ? layout : layout.rooms ?? []) as IRoom[];
+
+	// The UI saves rooms with their services, older layouts list unique IDs
+	return rooms.map((room) => ({
+		...room,
+		accessories: room.accessories ?? (room.services ?? []).map((service) => service.uniqueId as string),
+	}));
+}
+
+/**
+ * Map every accessory to the room it is placed in
+ * @param rooms - Rooms of the accessory layout
+ * @returns Room name per accessory unique ID
+ */
+export function getAccessoryRooms(rooms: IRoom[]): Record<string, string> {
+	const accessoryRooms: Record<string, string> = {};
+	for (const room of rooms) {
+		for (const uniqueId of room.accessories ?? []) {
+			accessoryRooms[uniqueId] = room.name;
+		}
+	}
+
+	return accessoryRooms;
+}
+
+/**
+ * Find a writable characteristic of an accessory, ignoring the case of its type
+ * @param accessory - Accessory service from /api/accessories
+ * @param characteristicType - Characteristic type, e.g. On or Brightness
+ * @returns The characteristic
+ */
+export function getWritableCharacteristic(
+	accessory: IAccessory,
+	characteristicType: string,
+): ICharacteristic {
+	const characteristics = accessory.serviceCharacteristics ?? [];
+	const characteristic =
+		characteristics.find((c) => c.type === characteristicType) ??
+		characteristics.find((c) => c.type.toLowerCase() === String(characteristicType).toLowerCase());
+
+	if (!characteristic) {
+		const writable = characteristics.filter((c) => c.canWrite).map((c) => c.type);
+		throw new Error(
+			`${accessory.serviceName} has no characteristic "${characteristicType}". Writable characteristics: ${writable.join(', ') || 'none'}`,
+		);
+	}
+	if (!characteristic.canWrite) {
+		throw new Error(`${characteristic.type} of ${accessory.serviceName} is read-only`);
+	}
+
+	return characteristic;
+}
+
+/**
+ * Convert a value to the format of a characteristic, rounded to its step and checked
+ * against its range. Booleans also accept strings such as "on", "true" or "1".
+ * @param characteristic - Characteristic to set
+ * @param value - Value as received, often a string
+ * @returns Value in the shape Homebridge expects
+ */
+export function coerceCharacteristicValue(
+	characteristic: ICharacteristic,
+	value: unknown,
+): string | number | boolean {
+	const { type, format, minValue, maxValue, minStep } = characteristic;
+	const text = String(value).trim().toLowerCase();
+
+	if (format === 'bool') {
+		if (typeof value === 'boolean') {
+			return value;
+		}
+		if (TRUE_VALUES.includes(text)) {
+			return true;
+		}
+		if (FALSE_VALUES.includes(text)) {
+			return false;
+		}
+		throw new Error(`Value "${value}" is not valid for ${type}: expected true or false`);
+	}
+
+	if (format === 'float' || INTEGER_FORMATS.includes(format)) {
+		let number = typeof value === 'boolean' ? Number(value) : Number(text);
+		if (TRUE_VALUES.includes(text) || FALSE_VALUES.includes(text)) {
+			number = TRUE_VALUES.includes(text) ? 1 : 0;
+		}
+		if (text === '' || isNaN(number)) {
+			throw new Error(`Value "${value}" is not valid for ${type}: expected a number (${format})`);
+		}
+
+		if (minStep) {
+			const base = minValue ?? 0;
+			const decimals = (String(minStep).split('.')[1] ?? '').length;
+			number = Number((Math.round((number - base) / minStep) * minStep + base).toFixed(decimals));
+		}
+		if (format !== 'float') {
+			number = Math.round(number);
+		}
+
+		const min = minValue ?? (format.startsWith('uint') ? 0 : undefined);
+		if ((min !== undefined && number < min) || (maxValue !== undefined && number > maxValue)) {
+			throw new Error(
+				`Value ${number} is out of range for ${type}: must be between ${min ?? '-∞'} and ${maxValue ?? '∞'}`,
+			);
+		}
+
+		return number;
+	}
+
+	if (format === 'string') {
+		return String(value);
+	}
+
+	// data, tlv8 and unknown formats are sent as given
+	return value as string | number | boolean;
+}
+
+// =============================================================================
+// LIST SEARCH
+// =============================================================================
+
+/**
+ * List the accessories for the accessory picker, with their type and room
+ * @param this - n8n load options context
+ * @param filter - Text typed in the picker
+ * @returns Accessories matching the filter
+ */
+export async function searchAccessories(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const accessories = (await homebridgeApiRequest.call(this, 'GET', '/api/accessories')) as IAccessory[];
+
+	// Rooms only make the list easier to read, it works without a layout
+	let accessoryRooms: Record<string, string> = {};
+	try {
+		accessoryRooms = getAccessoryRooms(await getLayoutRooms.call(this));
+	} catch (error) {}
+
+	const search = (filter ?? '').toLowerCase();
+	const results: INodeListSearchItems[] = [];
+	for (const accessory of accessories) {
+		const room = accessoryRooms[accessory.uniqueId];
+		const name = [accessory.serviceName, accessory.humanType, room].filter(Boolean).join(' · ');
+		if (search && !`${name} ${accessory.uniqueId}`.toLowerCase().includes(search)) {
+			continue;
+		}
+
+		results.push({ name, value: accessory.uniqueId });
+	}
+
+	results.sort((a, b) => a.name.localeCompare(b.name));
+	return { results };
+}
+
+// =============================================================================
+// LOAD OPTIONS
+// =============================================================================
+
+/**
+ * List the characteristics of the selected accessory that can be written
+ * @param this - n8n load options context
+ * @returns Characteristic types, described by format, unit and range
+ */
+export async function getWritableCharacteristics(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const uniqueId = this.getCurrentNodeParameter('uniqueId', { extractValue: true }) as string;
+	if (!uniqueId) {
+		return [];
+	}
+
+	const accessory = (await homebridgeApiRequest.call(
+		this,
+		'GET',
+		`/api/accessories/${encodeURIComponent(uniqueId)}`,
+	)) as IAccessory;
+
+	return (accessory.serviceCharacteristics ?? [])
+		.filter((characteristic) => characteristic.canWrite)
+		.map((characteristic) => {
+			const details = [characteristic.format, characteristic.unit];
+			if (characteristic.minValue !== undefined || characteristic.maxValue !== undefined) {
+				details.push(`${characteristic.minValue ?? ''}–${characteristic.maxValue ?? ''}`);
+			}
+
+			return {
+				name: characteristic.type,
+				value: characteristic.type,
+				description: details.filter(Boolean).join(' · '),
+			};
+		})
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * List the rooms of the accessory layout
+ * @param this - n8n load options context
+ * @returns Room names
+ */
+export async function getRooms(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const rooms = await getLayoutRooms.call(this);
+
+	return rooms.map((room) => ({
+		name: room.name,
+		value: room.name,
+		description: `${room.accessories?.length ?? 0} accessories`,
+	}));
+}
+
+// =============================================================================
+// TWO-FACTOR AUTHENTICATION HELPERS
+// =============================================================================
+
+/**
+ * Decode a base32 (RFC 4648) string, ignoring spaces, dashes and padding
+ * @param input - Base32 encoded string
+ * @returns Decoded bytes
+ */
+function decodeBase32(input: string): Buffer {
+	const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+	const bytes: number[] = [];
+	let buffer = 0;
+	let bits = 0;
+
+	for (const char of cleaned) {
+		const value = BASE32_ALPHABET.indexOf(char);
+		if (value === -1) {
+			throw new Error(`Invalid character "${char}" in TOTP secret. Expected a base32 string.`);
+		}
+
+		buffer = ((buffer << 5) | value) & 0xfff;
+		bits += 5;
+
+		if (bits >= 8) {
+			bytes.push((buffer >>> (bits - 8)) & 0xff);
+			bits -= 8;
+		}
+	}
+
+	return Buffer.from(bytes);
+}
+
+/**
+ * Generate the current RFC 6238 TOTP code for a base32 secret
+ * @param secret - Base32 encoded TOTP secret
+ * @param timestamp - Time in milliseconds to generate the code for
+ * @returns Zero-padded numeric code
+ */
+export function generateTotp(secret: string, timestamp: number = Date.now()): string {
+	const key = decodeBase32(secret);
+	if (key.length === 0) {
+		throw new Error('TOTP secret is empty');
+	}
+
+	const counter = Buffer.alloc(8);
+	counter.writeBigUInt64BE(BigInt(Math.floor(timestamp / 1000 / TOTP_PERIOD)));
+
+	const hmac = createHmac('sha1', key).update(counter).digest();
+	const offset = hmac[hmac.length - 1] & 0x0f;
+	const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, TOTP_DIGITS);
+
+	return binary.toString().padStart(TOTP_DIGITS, '0');
+}
@@ -1,4 +1,10 @@
 import { INodeType, INodeTypeDescription } from 'n8n-workflow';
+import {
+	getRooms,
+	getWritableCharacteristics,
+	homebridgeApiTest,
+	searchAccessories,
+} from './GenericFunctions';
 import { 
 	authOperations, 
 	authFields,
@@ -19,7 +25,8 @@ import {
 	backupOperations,
 	backupFields,
 	setupOperations,
-	setupFields
+	setupFields,
+	multiServerFields
 } from './HomebridgeDescription';
 
 export class Homebridge implements INodeType {
@@ -41,6 +48,7 @@ export class Homebridge implements INodeType {
 			{
 				name: 'homebridgeApi',
 				required: true,
+				testedBy: 'homebridgeApiTest',
 			},
 		],
 		requestDefaults: {
@@ -151,6 +159,22 @@ export class Homebridge implements INodeType {
 			// Setup operations and fields
 			...setupOperations,
 			...setupFields,
+
+			// Options shared by all resources
+			...multiServerFields,
 		],
 	};
-}
\ No newline at end of file
+
+	methods = {
+		credentialTest: {
+			homebridgeApiTest,
+		},
+		listSearch: {
+			searchAccessories,
+		},
+		loadOptions: {
+			getRooms,
+			getWritableCharacteristics,
+		},
+	};
+}
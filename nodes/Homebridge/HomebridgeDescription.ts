@@ -1,76 +1,96 @@
-import { INodeProperties, IHttpRequestMethods } from 'n8n-workflow';
+import {
+	IDataObject,
+	IExecuteSingleFunctions,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	INodeProperties,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import {
+	controlRoom,
+	findAccessories,
+	getAccessToken,
+	getItemAccessToken,
+	getLoginOtp,
+	handleRoutedResponse,
+	prepareCharacteristicValue,
+	rememberAuthorizedRequest,
+	rememberFailedLogin,
+	restoreScene,
+	runOnAllServers,
+	saveScene,
+	setCharacteristics,
+} from './GenericFunctions';
 
 // Helper function to add authentication to requests
 const addAuthToRequest = {
 	send: {
 		preSend: [
-			async function(this: any, requestOptions: any) {
+			async function(this: IExecuteSingleFunctions, requestOptions: IHttpRequestOptions) {
+				// Credentials and parameters are resolved for the item being processed,
+				// so expressions can point each item to a different server or account
+				const credentials = await this.getCredentials('homebridgeApi');
+				
 				// For login operation, credentials are required
 				if (requestOptions.url?.includes('/api/auth/login')) {
-					const credentials = await this.getCredentials('homebridgeApi');
 					if (!credentials) {
-						throw new Error('Homebridge credentials are required for login operation');
+						throw new NodeOperationError(this.getNode(), 'Homebridge credentials are required for login operation');
 					}
 					
+					// An explicit 2FA code wins, otherwise generate one from the credential's TOTP secret
+					const otp = this.getNodeParameter('additionalFields.otp', '') || getLoginOtp(credentials);
+					
 					requestOptions.body = {
-						username: this.getNodeParameter('additionalFields.username', 0) || credentials.username,
-						password: this.getNodeParameter('additionalFields.password', 0) || credentials.password,
-						...(this.getNodeParameter('additionalFields.otp', 0) && { otp: this.getNodeParameter('additionalFields.otp', 0) }),
+						username: this.getNodeParameter('additionalFields.username', '') || credentials.username,
+						password: this.getNodeParameter('additionalFields.password', '') || credentials.password,
+						...(otp && { otp }),
 					};
 					return requestOptions;
 				}
 
-				// For all other operations, get token from previous login operation
-				let accessToken = null;
+				// For all other operations, reuse a token from a previous login operation if one is available
+				let accessToken = getItemAccessToken(this.getInputData());
 				
-				// Try to get token from input data
-				try {
-					const items = this.getInputData();
-					if (items && items.length > 0) {
-						// Look for access_token in the previous node's output
-						for (const item of items) {
-							if (item.json) {
-								// Check if access_token is directly in the item
-								if (item.json.access_token) {
-									accessToken = item.json.access_token;
-									break;
-								}
-								// Check if access_token is in an array (most common case)
-								if (Array.isArray(item.json) && item.json.length > 0) {
-									const firstItem = item.json[0];
-									if (firstItem && firstItem.access_token) {
-										accessToken = firstItem.access_token;
-										break;
-									}
-								}
-							}
-						}
-					}
-				} catch (error) {
-					// Ignore if no input data
+				// If no token from previous node, try to get it from user input
+				if (!accessToken) {
+					accessToken = this.getNodeParameter('accessToken', '') as string;
 				}
 				
-				// If no token from previous node, try to get it from user input
+				// Otherwise use a cached token, logging in with the credential when it is missing or about to expire
 				if (!accessToken) {
-					// Try to get token from user input field
-					const userToken = this.getNodeParameter('accessToken', 0, '');
-					if (userToken) {
-						accessToken = userToken;
-					} else {
-						throw new Error('No access token available. Please either: 1) Connect the Login node to this node, or 2) Manually enter the access token in the "Access Token" field.');
+					try {
+						accessToken = await getAccessToken.call(this, credentials);
+					} catch (error) {
+						// With additional servers, the failed login is reported in the credential server's item
+						if (!(this.getNodeParameter('additionalServers.server', []) as IDataObject[]).length) {
+							throw error;
+						}
+						rememberFailedLogin(requestOptions, error);
 					}
 				}
 				
-				// Use the token for authorization
 				requestOptions.headers = {
 					...requestOptions.headers,
 					'Authorization': `Bearer ${accessToken}`,
 				};
+				
+				// Check Auth must report a rejected token instead of replaying with a fresh login
+				if (requestOptions.url?.includes('/api/auth/check')) {
+					requestOptions.ignoreHttpStatusErrors = true;
+					return requestOptions;
+				}
+				
+				// Lets the response hook log in again and replay the request if the token is rejected
+				rememberAuthorizedRequest.call(this, requestOptions);
 
 				return requestOptions;
 			},
 		],
 	},
+	output: {
+		postReceive: [handleRoutedResponse],
+	},
 };
 
 // =============================================================================
@@ -166,7 +186,7 @@ export const authFields: INodeProperties[] = [
 					password: true,
 				},
 				default: '',
-				description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+				description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 			},
 			{
 				displayName: 'Override Username',
@@ -450,7 +470,7 @@ export const serverFields: INodeProperties[] = [
 				resource: ['server'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 	{
 		displayName: 'Device ID',
@@ -741,7 +761,7 @@ export const configFields: INodeProperties[] = [
 				resource: ['config'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 	{
 		displayName: 'Plugin Name',
@@ -949,7 +969,7 @@ export const pluginFields: INodeProperties[] = [
 				resource: ['plugins'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 	{
 		displayName: 'Search Query',
@@ -1046,7 +1066,91 @@ export const accessoryOperations: INodeProperties[] = [
 						method: 'PUT' as IHttpRequestMethods,
 						url: '=/api/accessories/{{$parameter["uniqueId"]}}',
 					},
-					...addAuthToRequest,
+					send: {
+						preSend: [...addAuthToRequest.send.preSend, prepareCharacteristicValue],
+					},
+					output: addAuthToRequest.output,
+				},
+			},
+			{
+				name: 'Set Characteristics',
+				value: 'setCharacteristics',
+				description: 'Set several characteristics of an accessory in order',
+				action: 'Set accessory characteristics',
+				routing: {
+					// Read the accessory once, the characteristics are then set one by one
+					request: {
+						method: 'GET' as IHttpRequestMethods,
+						url: '=/api/accessories/{{$parameter["uniqueId"]}}',
+					},
+					send: addAuthToRequest.send,
+					output: {
+						postReceive: [...addAuthToRequest.output.postReceive, setCharacteristics],
+					},
+				},
+			},
+			{
+				name: 'Find Accessories',
+				value: 'find',
+				description: 'Find accessories by name, type, room, manufacturer, bridge or current value',
+				action: 'Find accessories',
+				routing: {
+					request: {
+						method: 'GET' as IHttpRequestMethods,
+						url: '/api/accessories',
+					},
+					send: addAuthToRequest.send,
+					output: {
+						postReceive: [...addAuthToRequest.output.postReceive, findAccessories],
+					},
+				},
+			},
+			{
+				name: 'Control Room',
+				value: 'controlRoom',
+				description: 'Set a characteristic on every accessory in a room',
+				action: 'Control accessories in a room',
+				routing: {
+					request: {
+						method: 'GET' as IHttpRequestMethods,
+						url: '/api/accessories',
+					},
+					send: addAuthToRequest.send,
+					output: {
+						postReceive: [...addAuthToRequest.output.postReceive, controlRoom],
+					},
+				},
+			},
+			{
+				name: 'Save Scene',
+				value: 'saveScene',
+				description: 'Capture the writable characteristic values of accessories',
+				action: 'Save a scene',
+				routing: {
+					request: {
+						method: 'GET' as IHttpRequestMethods,
+						url: '/api/accessories',
+					},
+					send: addAuthToRequest.send,
+					output: {
+						postReceive: [...addAuthToRequest.output.postReceive, saveScene],
+					},
+				},
+			},
+			{
+				name: 'Restore Scene',
+				value: 'restoreScene',
+				description: 'Set accessories back to the values of a saved scene',
+				action: 'Restore a scene',
+				routing: {
+					request: {
+						method: 'GET' as IHttpRequestMethods,
+						url: '/api/accessories',
+					},
+					send: addAuthToRequest.send,
+					output: {
+						postReceive: [...addAuthToRequest.output.postReceive, restoreScene],
+					},
 				},
 			},
 		],
@@ -1068,26 +1172,47 @@ export const accessoryFields: INodeProperties[] = [
 				resource: ['accessories'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 	{
-		displayName: 'Unique ID',
+		displayName: 'Accessory',
 		name: 'uniqueId',
-		type: 'string',
+		type: 'resourceLocator',
 		required: true,
-		default: '',
+		default: { mode: 'list', value: '' },
 		displayOptions: {
 			show: {
 				resource: ['accessories'],
-				operation: ['getAccessory', 'setCharacteristic'],
+				operation: ['getAccessory', 'setCharacteristic', 'setCharacteristics'],
 			},
 		},
-		description: 'The unique ID of the accessory',
+		description: 'The accessory, picked from the list or given by its unique ID',
+		modes: [
+			{
+				displayName: 'From List',
+				name: 'list',
+				type: 'list',
+				typeOptions: {
+					searchListMethod: 'searchAccessories',
+					searchable: true,
+				},
+			},
+			{
+				displayName: 'By ID',
+				name: 'id',
+				type: 'string',
+				placeholder: 'e.g. 8a4c3e9f0d6b...',
+			},
+		],
 	},
 	{
-		displayName: 'Characteristic Type',
+		displayName: 'Characteristic Type Name or ID',
 		name: 'characteristicType',
-		type: 'string',
+		type: 'options',
+		typeOptions: {
+			loadOptionsMethod: 'getWritableCharacteristics',
+			loadOptionsDependsOn: ['uniqueId.value'],
+		},
 		required: true,
 		default: '',
 		displayOptions: {
@@ -1096,7 +1221,7 @@ export const accessoryFields: INodeProperties[] = [
 				operation: ['setCharacteristic'],
 			},
 		},
-		description: 'The characteristic type to set',
+		description: 'The characteristic type to set. Only writable characteristics of the accessory are listed. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 		routing: {
 			send: {
 				type: 'body',
@@ -1116,7 +1241,7 @@ export const accessoryFields: INodeProperties[] = [
 				operation: ['setCharacteristic'],
 			},
 		},
-		description: 'The value to set (string, boolean, or integer)',
+		description: 'The value to set. It is converted to the format of the characteristic, e.g. "on" or "1" to true, and rounded to its step.',
 		routing: {
 			send: {
 				type: 'body',
@@ -1124,6 +1249,387 @@ export const accessoryFields: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		displayName: 'Characteristics',
+		name: 'characteristics',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+			sortable: true,
+		},
+		placeholder: 'Add Characteristic',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['setCharacteristics'],
+			},
+		},
+		description: 'Characteristics to set, applied from top to bottom',
+		options: [
+			{
+				name: 'characteristic',
+				displayName: 'Characteristic',
+				values: [
+					{
+						displayName: 'Characteristic Type Name or ID',
+						name: 'characteristicType',
+						type: 'options',
+						typeOptions: {
+							loadOptionsMethod: 'getWritableCharacteristics',
+							loadOptionsDependsOn: ['uniqueId.value'],
+						},
+						default: '',
+						description: 'The characteristic type to set. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+						description: 'The value to set, converted to the format of the characteristic',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Room Name or ID',
+		name: 'room',
+		type: 'options',
+		typeOptions: {
+			loadOptionsMethod: 'getRooms',
+		},
+		required: true,
+		default: '',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['controlRoom'],
+			},
+		},
+		description: 'Room of the accessory layout. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+	},
+	{
+		displayName: 'Service Types',
+		name: 'serviceTypes',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. Lightbulb, Outlet',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['controlRoom'],
+			},
+		},
+		description: 'Comma-separated service types to control. Leave empty to control every accessory in the room with the characteristic.',
+	},
+	{
+		displayName: 'Characteristic Type',
+		name: 'roomCharacteristicType',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: 'e.g. On',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['controlRoom'],
+			},
+		},
+		description: 'The characteristic type to set on every matching accessory',
+	},
+	{
+		displayName: 'Value',
+		name: 'roomValue',
+		type: 'string',
+		required: true,
+		default: '',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['controlRoom'],
+			},
+		},
+		description: 'The value to set, converted to the format of the characteristic of each accessory',
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['find'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Bridge',
+				name: 'bridge',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. Homebridge 1A2B or 0E:3C:22:18:FD:0A',
+				description: 'Name or username of the bridge exposing the accessory',
+			},
+			{
+				displayName: 'Manufacturer',
+				name: 'manufacturer',
+				type: 'string',
+				default: '',
+				description: 'Text the manufacturer in the accessory information must contain',
+			},
+			{
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
+				default: '',
+				description: 'Text the service name must contain, case-insensitive',
+			},
+			{
+				displayName: 'Name Is Regex',
+				name: 'nameIsRegex',
+				type: 'boolean',
+				default: false,
+				description: 'Whether the name is a regular expression instead of plain text',
+			},
+			{
+				displayName: 'Plugin',
+				name: 'plugin',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. homebridge-hue',
+				description: 'Comma-separated plugins running the accessory. Only accessories of child bridges can be matched, the main bridge mixes plugins.',
+			},
+			{
+				displayName: 'Room Name or ID',
+				name: 'room',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getRooms',
+				},
+				default: '',
+				description: 'Room of the accessory layout. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Type',
+				name: 'type',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. Lightbulb, Battery',
+				description: 'Comma-separated service types or human types',
+			},
+		],
+	},
+	{
+		displayName: 'Value Conditions',
+		name: 'valueConditions',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Condition',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['find'],
+			},
+		},
+		description: 'Conditions on current characteristic values, all of which must match',
+		options: [
+			{
+				name: 'condition',
+				displayName: 'Condition',
+				values: [
+					{
+						displayName: 'Characteristic',
+						name: 'characteristic',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. BatteryLevel',
+					},
+					{
+						displayName: 'Operator',
+						name: 'operator',
+						type: 'options',
+						options: [
+							{
+								name: 'Equal',
+								value: 'equal',
+							},
+							{
+								name: 'Greater Than',
+								value: 'gt',
+							},
+							{
+								name: 'Greater Than or Equal',
+								value: 'gte',
+							},
+							{
+								name: 'Less Than',
+								value: 'lt',
+							},
+							{
+								name: 'Less Than or Equal',
+								value: 'lte',
+							},
+							{
+								name: 'Not Equal',
+								value: 'notEqual',
+							},
+						],
+						default: 'equal',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. 20',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Scene Source',
+		name: 'sceneSource',
+		type: 'options',
+		options: [
+			{
+				name: 'Workflow Static Data',
+				value: 'staticData',
+				description: 'Restore a scene saved by name in this workflow',
+			},
+			{
+				name: 'Input Item',
+				value: 'item',
+				description: 'Restore a scene passed as data, e.g. the output of Save Scene',
+			},
+		],
+		default: 'staticData',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['restoreScene'],
+			},
+		},
+	},
+	{
+		displayName: 'Scene Name',
+		name: 'sceneName',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: 'e.g. before-alert',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['saveScene', 'restoreScene'],
+			},
+			hide: {
+				sceneSource: ['item'],
+			},
+		},
+		description: 'Name the scene is saved under',
+	},
+	{
+		displayName: 'Scene',
+		name: 'sceneData',
+		type: 'json',
+		required: true,
+		default: '={{ $json }}',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['restoreScene'],
+				sceneSource: ['item'],
+			},
+		},
+		description: 'Scene as output by Save Scene',
+	},
+	{
+		displayName: 'Save To',
+		name: 'sceneStorage',
+		type: 'options',
+		options: [
+			{
+				name: 'Workflow Static Data',
+				value: 'staticData',
+				description: 'Keep the scene in the workflow and output it',
+			},
+			{
+				name: 'Output Item Only',
+				value: 'item',
+				description: 'Only output the scene, to pass it on or store it elsewhere',
+			},
+		],
+		default: 'staticData',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['saveScene'],
+			},
+		},
+	},
+	{
+		displayName: 'Accessories',
+		name: 'sceneAccessories',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. Desk Lamp, 8a4c3e...',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['saveScene'],
+			},
+		},
+		description: 'Comma-separated unique IDs or names of the accessories to capture. Leave empty to capture all accessories of the room, or all accessories.',
+	},
+	{
+		displayName: 'Room Name or ID',
+		name: 'sceneRoom',
+		type: 'options',
+		typeOptions: {
+			loadOptionsMethod: 'getRooms',
+		},
+		default: '',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['saveScene'],
+			},
+		},
+		description: 'Only capture accessories of this room. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+	},
+	{
+		displayName: 'On Failure',
+		name: 'onFailure',
+		type: 'options',
+		options: [
+			{
+				name: 'Stop',
+				value: 'stop',
+				description: 'Skip the remaining characteristics',
+			},
+			{
+				name: 'Continue',
+				value: 'continue',
+				description: 'Set the remaining characteristics anyway',
+			},
+		],
+		default: 'stop',
+		displayOptions: {
+			show: {
+				resource: ['accessories'],
+				operation: ['setCharacteristics'],
+			},
+		},
+		description: 'What to do when a characteristic cannot be set',
+	},
 ];
 
 // =============================================================================
@@ -1265,7 +1771,7 @@ export const userFields: INodeProperties[] = [
 				resource: ['users'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 	{
 		displayName: 'User ID',
@@ -1603,7 +2109,7 @@ export const statusFields: INodeProperties[] = [
 				resource: ['status'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 ];
 
@@ -1758,7 +2264,7 @@ export const platformFields: INodeProperties[] = [
 				resource: ['platform'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 	{
 		displayName: 'Startup Settings',
@@ -1993,7 +2499,7 @@ export const backupFields: INodeProperties[] = [
 				resource: ['backup'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 	{
 		displayName: 'Backup ID',
@@ -2069,7 +2575,7 @@ export const setupFields: INodeProperties[] = [
 				resource: ['setup'],
 			},
 		},
-		description: 'Access token from Login operation. If not connected to Login node, enter manually.',
+		description: 'Optional access token from a Login operation. Leave empty to log in automatically with the credential.',
 	},
 	{
 		displayName: 'Name',
@@ -2148,3 +2654,68 @@ export const setupFields: INodeProperties[] = [
 		},
 	},
 ];
+
+// =============================================================================
+// MULTI-SERVER OPTIONS
+// =============================================================================
+
+export const multiServerFields: INodeProperties[] = [
+	{
+		displayName: 'Additional Servers',
+		name: 'additionalServers',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Server',
+		default: {},
+		displayOptions: {
+			hide: {
+				resource: ['auth', 'setup'],
+				// Accessory IDs belong to one server
+				operation: [
+					'getAccessory',
+					'setCharacteristic',
+					'setCharacteristics',
+					'controlRoom',
+					'find',
+					'saveScene',
+					'restoreScene',
+				],
+			},
+		},
+		// Sends the request to every server from one place instead of the routed request
+		routing: {
+			send: {
+				paginate: '={{ ($value.server ?? []).length > 0 }}',
+			},
+			operations: {
+				pagination: runOnAllServers,
+			},
+		},
+		description: 'Also run the operation on these servers, with the account and connection settings of the credential. Outputs one item per server, including the credential server.',
+		options: [
+			{
+				name: 'server',
+				displayName: 'Server',
+				values: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						description: 'Label of the server in the output. Defaults to the server host.',
+					},
+					{
+						displayName: 'Server URL',
+						name: 'serverUrl',
+						type: 'string',
+						default: '',
+						placeholder: 'http://homebridge-2.local:8581',
+						description: 'The URL of the Homebridge server (including port)',
+					},
+				],
+			},
+		],
+	},
+];
@@ -0,0 +1,137 @@
+/**
+ * Type definitions for Homebridge API
+ * Following n8n best practices and TypeScript strict mode
+ */
+
+import { IDataObject } from 'n8n-workflow';
+
+// =============================================================================
+// AUTHENTICATION TYPES
+// =============================================================================
+
+export interface IAuthLoginRequest {
+	username: string;
+	password: string;
+	otp?: string;
+}
+
+export interface IAuthLoginResponse {
+	access_token: string;
+	token_type: string;
+	expires_in: number;
+}
+
+export interface IAuthSettings {
+	formAuth: boolean;
+	theme: string;
+	env: {
+		platform: string;
+		enableTerminalAccess: boolean;
+		enableAccessories: boolean;
+		homebridgeInstanceName: string;
+	};
+}
+
+export interface ICachedToken {
+	accessToken: string;
+	expiresAt: number; // epoch milliseconds
+}
+
+// =============================================================================
+// ACCESSORY TYPES
+// =============================================================================
+
+export interface IAccessory extends IDataObject {
+	aid: number;
+	iid: number;
+	uuid: string;
+	type: string;
+	humanType: string;
+	serviceName: string;
+	serviceCharacteristics: ICharacteristic[];
+	accessoryInformation: IDataObject;
+	values: IDataObject;
+	instance: IDataObject;
+	uniqueId: string;
+}
+
+export interface ICharacteristic extends IDataObject {
+	aid: number;
+	iid: number;
+	uuid: string;
+	type: string;
+	serviceType: string;
+	serviceName: string;
+	description: string;
+	value: string | number | boolean;
+	format: string;
+	perms: string[];
+	unit?: string;
+	maxValue?: number;
+	minValue?: number;
+	minStep?: number;
+	canRead: boolean;
+	canWrite: boolean;
+}
+
+export interface IRoom extends IDataObject {
+	name: string;
+	accessories?: string[]; // uniqueIds
+	services?: IDataObject[]; // layout saved by the UI, one entry with a uniqueId per service
+}
+
+export interface IAccessoryFilters {
+	accessories: string[];
+	serviceTypes: string[];
+	characteristics: string[];
+}
+
+// =============================================================================
+// PLUGIN TYPES
+// =============================================================================
+
+export interface IPlugin extends IDataObject {
+	name: string;
+	displayName?: string;
+	description?: string;
+	latestVersion?: string;
+	updateAvailable: boolean;
+	installedVersion: string;
+	links?: IDataObject;
+}
+
+// =============================================================================
+// STATUS TYPES
+// =============================================================================
+
+export interface IHomebridgeStatus extends IDataObject {
+	status: 'up' | 'down' | 'pending';
+	consolePort: number;
+	port: number;
+	pin: string;
+	username: string;
+	setupUri?: string;
+}
+
+export interface IChildBridge extends IDataObject {
+	username: string;
+	displayName: string;
+	status: 'ok' | 'pending' | 'down';
+	plugin: string;
+	paired: boolean;
+	setupUri?: string;
+	mDNS?: IDataObject;
+}
+
+export interface IHomebridgeVersion extends IDataObject {
+	name?: string;
+	installedVersion: string;
+	latestVersion: string;
+	updateAvailable: boolean;
+}
+
+export interface INodeJsInfo extends IDataObject {
+	currentVersion: string;
+	latestVersion: string;
+	updateAvailable: boolean;
+}
@@ -0,0 +1,392 @@
+/**
+ * Generic Functions for Homebridge Event Trigger Node
+ * socket.io connection to the Homebridge UI and handlers for the streams it pushes
+ */
+
+import { IDataObject, INodeExecutionData, ITriggerFunctions, NodeOperationError } from 'n8n-workflow';
+import { io, Socket } from 'socket.io-client';
+
+import {
+	getAccessToken,
+	getCustomHeaders,
+	getServerUrl,
+	getTlsOptions,
+} from '../Homebridge/GenericFunctions';
+import { IAccessory } from '../Homebridge/types';
+import {
+	getAccessoryFilters,
+	getAccessorySummary,
+	getCharacteristicEvent,
+	getWatchedValues,
+	matchesFilter,
+	parseFilterList,
+} from '../HomebridgeTrigger/GenericFunctions';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const RECONNECT_DELAY = 1000; // first reconnection attempt, doubled on every failure
+const MAX_RECONNECT_DELAY = 60 * 1000;
+
+// Homebridge prints log levels as colours only: red errors, yellow warnings, grey debug
+const LOG_LEVEL_COLOURS: Record<string, string> = {
+	'31': 'error',
+	'33': 'warn',
+	'90': 'debug',
+};
+const LOG_REPLAY_GAP = 1000; // ms without data that ends the replay of old lines
+const LOG_REPLAY_WINDOW = 5000; // ms after the first data, the replay is over even on a busy log
+const ANSI_ESCAPE = /\x1b\[[0-9;]*[A-Za-z]/g;
+const LOG_LINE = /^\[([^\]]+)\]\s+(?:\[([^\]]+)\]\s+)?(.*)$/;
+
+// Values of the HomeKit ProgrammableSwitchEvent characteristic
+const PRESS_TYPES: Record<number, string> = {
+	0: 'single',
+	1: 'double',
+	2: 'long',
+};
+
+// =============================================================================
+// SOCKET CONNECTION
+// =============================================================================
+
+/**
+ * Open a socket.io connection to a namespace of the Homebridge UI, authenticated with
+ * the credential. The connection is re-established with exponential backoff, logging
+ * in again when the server drops it because the token expired.
+ * @param this - n8n trigger context
+ * @param namespace - socket.io namespace, e.g. /accessories
+ * @param onConnect - Called with the socket after every (re)connection, to subscribe to events
+ * @returns Function closing the connection
+ */
+export async function openHomebridgeSocket(
+	this: ITriggerFunctions,
+	namespace: string,
+	onConnect: (socket: Socket) => void,
+): Promise<() => Promise<void>> {
+	let socket: Socket | undefined;
+	let reconnectTimer: NodeJS.Timeout | undefined;
+	let closed = false;
+	let attempt = 0;
+	let rejectedToken: string | undefined;
+
+	const scheduleReconnect = (reason: string) => {
+		if (closed || reconnectTimer) {
+			return;
+		}
+
+		const delay = Math.min(RECONNECT_DELAY * Math.pow(2, attempt), MAX_RECONNECT_DELAY);
+		attempt++;
+		this.logger.warn(`Homebridge socket ${namespace} disconnected (${reason}), reconnecting in ${delay} ms`);
+
+		reconnectTimer = setTimeout(() => {
+			reconnectTimer = undefined;
+			connect().catch((error) => scheduleReconnect(error.message));
+		}, delay);
+	};
+
+	const connect = async () => {
+		const credentials = await this.getCredentials('homebridgeApi');
+		const token = await getAccessToken.call(this, credentials, rejectedToken);
+		rejectedToken = undefined;
+		if (closed) {
+			return;
+		}
+
+		// socket.io is served next to the API, below the reverse-proxy base path if there is one
+		const serverUrl = new URL(getServerUrl(credentials));
+		const { skipSslCertificateValidation, agentOptions } = getTlsOptions(credentials);
+		const extraHeaders: Record<string, string> = {};
+		for (const [name, value] of Object.entries(getCustomHeaders(credentials))) {
+			extraHeaders[name] = String(value);
+		}
+
+		socket?.removeAllListeners();
+		socket?.disconnect();
+		// Every connection carries its own token and settings, so it never shares the
+		// Manager socket.io caches per origin with other triggers on the same server
+		socket = io(`${serverUrl.origin}${namespace}`, {
+			forceNew: true,
+			path: `${serverUrl.pathname.replace(/\/+$/, '')}/socket.io`,
+			query: { token },
+			transports: ['websocket'],
+			reconnection: false,
+			extraHeaders,
+			rejectUnauthorized: !skipSslCertificateValidation,
+			ca: agentOptions?.ca as string | undefined,
+			cert: agentOptions?.cert as string | undefined,
+			key: agentOptions?.key as string | undefined,
+		});
+
+		socket.on('connect', () => {
+			attempt = 0;
+			onConnect(socket as Socket);
+		});
+		socket.on('connect_error', (error) => scheduleReconnect(error.message));
+		socket.on('disconnect', (reason) => {
+			// The UI disconnects sockets whose token it does not accept, so log in again
+			if (reason === 'io server disconnect') {
+				rejectedToken = token;
+			}
+			scheduleReconnect(reason);
+		});
+	};
+
+	// Errors of the first connection fail the activation, later ones are retried
+	await connect();
+
+	return async () => {
+		closed = true;
+		if (reconnectTimer) {
+			clearTimeout(reconnectTimer);
+		}
+		socket?.removeAllListeners();
+		socket?.disconnect();
+	};
+}
+
+// =============================================================================
+// ACCESSORY EVENTS
+// =============================================================================
+
+/**
+ * Follow the accessory updates pushed to the UI dashboard and emit every change
+ * of a watched characteristic
+ * @param this - n8n trigger context
+ * @param emit - Emits items as a workflow execution
+ * @returns Function closing the connection
+ */
+export async function watchAccessoryUpdates(
+	this: ITriggerFunctions,
+	emit: (items: INodeExecutionData[]) => void,
+): Promise<() => Promise<void>> {
+	const filters = getAccessoryFilters.call(this);
+	const knownValues: Record<string, IDataObject> = {};
+
+	return await openHomebridgeSocket.call(this, '/accessories', (socket) => {
+		socket.on('accessories-data', (accessories: IAccessory[]) => {
+			const changes: INodeExecutionData[] = [];
+
+			for (const accessory of accessories) {
+				const values = getWatchedValues(accessory, filters);
+				if (!values) {
+					continue;
+				}
+
+				// The first data after connecting is the full list, it only sets the baseline
+				const previous = knownValues[accessory.uniqueId];
+				knownValues[accessory.uniqueId] = { ...previous, ...values };
+				if (!previous) {
+					continue;
+				}
+
+				for (const [characteristic, value] of Object.entries(values)) {
+					if (characteristic in previous && previous[characteristic] !== value) {
+						changes.push({
+							json: getCharacteristicEvent(accessory, characteristic, previous[characteristic], value),
+						});
+					}
+				}
+			}
+
+			if (changes.length) {
+				emit(changes);
+			}
+		});
+
+		// Accessories were added or removed, ask for the full list again
+		socket.on('accessories-reload-required', () => socket.emit('get-accessories'));
+
+		socket.emit('get-accessories');
+	});
+}
+
+/**
+ * Follow the accessory updates pushed to the UI dashboard and emit every press of a
+ * stateless programmable switch. These characteristics have no stable value, so every
+ * update is a press, even when it repeats the previous value.
+ * @param this - n8n trigger context
+ * @param emit - Emits items as a workflow execution
+ * @returns Function closing the connection
+ */
+export async function watchButtonPresses(
+	this: ITriggerFunctions,
+	emit: (items: INodeExecutionData[]) => void,
+): Promise<() => Promise<void>> {
+	const buttonFilter = parseFilterList(this.getNodeParameter('buttons', '') as string);
+	const pressTypes = this.getNodeParameter('pressTypes', []) as string[];
+
+	return await openHomebridgeSocket.call(this, '/accessories', (socket) => {
+		// The full list sent on request carries the last press of every button, not a new one
+		let expectingFullList = true;
+		const requestAccessories = () => {
+			expectingFullList = true;
+			socket.emit('get-accessories');
+		};
+
+		socket.on('accessories-data', (accessories: IAccessory[]) => {
+			if (expectingFullList) {
+				expectingFullList = false;
+				return;
+			}
+
+			const presses: INodeExecutionData[] = [];
+			for (const accessory of accessories) {
+				const value = accessory.values?.ProgrammableSwitchEvent;
+				const press = PRESS_TYPES[value as number];
+				if (
+					!press ||
+					!matchesFilter(buttonFilter, accessory.uniqueId, accessory.serviceName) ||
+					(pressTypes.length && !pressTypes.includes(press))
+				) {
+					continue;
+				}
+
+				presses.push({
+					json: {
+						event: 'buttonPress',
+						uniqueId: accessory.uniqueId,
+						accessory: getAccessorySummary(accessory),
+						press,
+						value: value as number,
+						// Tells the buttons of a multi-button switch apart
+						serviceLabelIndex: accessory.values?.ServiceLabelIndex,
+						timestamp: new Date().toISOString(),
+					},
+				});
+			}
+
+			if (presses.length) {
+				emit(presses);
+			}
+		});
+
+		socket.on('accessories-reload-required', requestAccessories);
+
+		requestAccessories();
+	});
+}
+
+// =============================================================================
+// LOG EVENTS
+// =============================================================================
+
+/**
+ * Follow the live Homebridge log shown in the UI and emit the new lines that match
+ * the pattern, plugin and level filters
+ * @param this - n8n trigger context
+ * @param emit - Emits items as a workflow execution
+ * @returns Function closing the connection
+ */
+export async function watchLogLines(
+	this: ITriggerFunctions,
+	emit: (items: INodeExecutionData[]) => void,
+): Promise<() => Promise<void>> {
+	const patternSource = this.getNodeParameter('pattern', '') as string;
+	const pluginFilter = parseFilterList(this.getNodeParameter('plugins', '') as string);
+	const levels = this.getNodeParameter('levels', []) as string[];
+
+	let pattern: RegExp | undefined;
+	try {
+		pattern = patternSource ? new RegExp(patternSource, 'i') : undefined;
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Invalid pattern: ${error.message}`);
+	}
+
+	// Newest line seen, the UI replays the end of the log file on every connection
+	let lastLine: string | undefined;
+
+	return await openHomebridgeSocket.call(this, '/log', (socket) => {
+		const replayedUntil = lastLine;
+		let replaying = true;
+		let firstChunkAt = 0;
+		let lastChunkAt = 0;
+		let partialLine = '';
+		let previousPlugin = '';
+
+		socket.on('stdout', (data: string) => {
+			// The replay arrives in one burst, data after a quiet moment is new. Timestamps
+			// are not compared, they are in the locale and time zone of the server.
+			const now = Date.now();
+			firstChunkAt = firstChunkAt || now;
+			if (
+				(lastChunkAt && now - lastChunkAt > LOG_REPLAY_GAP) ||
+				now - firstChunkAt > LOG_REPLAY_WINDOW
+			) {
+				replaying = false;
+			}
+			lastChunkAt = now;
+
+			const lines = (partialLine + data).split(/\r?\n/);
+			partialLine = lines.pop() ?? '';
+
+			const matches: INodeExecutionData[] = [];
+			for (const rawLine of lines) {
+				const line = parseLogLine(rawLine);
+				if (!line) {
+					continue;
+				}
+
+				// Lines without a timestamp, e.g. stack traces, belong to the line before them
+				if (!line.timestamp) {
+					line.plugin = previousPlugin;
+				}
+				previousPlugin = line.plugin as string;
+
+				// After a reconnection, the lines following the last one seen are new
+				if (replaying && replayedUntil !== undefined && line.line === replayedUntil) {
+					replaying = false;
+					continue;
+				}
+				lastLine = line.line as string;
+
+				if (
+					replaying ||
+					(pattern && !pattern.test(line.message as string)) ||
+					!matchesFilter(pluginFilter, line.plugin) ||
+					(levels.length && !levels.includes(line.level as string))
+				) {
+					continue;
+				}
+
+				matches.push({ json: { event: 'logLine', ...line } });
+			}
+
+			if (matches.length) {
+				emit(matches);
+			}
+		});
+
+		socket.emit('tail-log', { cols: 200, rows: 50 });
+	});
+}
+
+/**
+ * Parse a line of the Homebridge log into timestamp, plugin prefix, level and message
+ * @param rawLine - Line as printed by Homebridge, with ANSI colour codes
+ * @returns Parsed line, or undefined for empty lines
+ */
+function parseLogLine(rawLine: string): IDataObject | undefined {
+	let level = 'info';
+	for (const [, colour] of rawLine.matchAll(/\x1b\[(\d+)m/g)) {
+		if (LOG_LEVEL_COLOURS[colour]) {
+			level = LOG_LEVEL_COLOURS[colour];
+			break;
+		}
+	}
+
+	const line = rawLine.replace(ANSI_ESCAPE, '').trim();
+	if (!line) {
+		return undefined;
+	}
+
+	const [, timestamp, plugin, message] = LOG_LINE.exec(line) ?? [];
+	return {
+		timestamp: timestamp ?? '',
+		plugin: plugin ?? '',
+		level,
+		message: message ?? line,
+		line,
+	};
+}
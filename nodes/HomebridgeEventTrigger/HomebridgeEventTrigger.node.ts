@@ -0,0 +1,236 @@
+import {
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	ITriggerFunctions,
+	ITriggerResponse,
+} from 'n8n-workflow';
+import { homebridgeApiTest } from '../Homebridge/GenericFunctions';
+import { watchAccessoryUpdates, watchButtonPresses, watchLogLines } from './GenericFunctions';
+
+export class HomebridgeEventTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Homebridge Event Trigger',
+		name: 'homebridgeEventTrigger',
+		icon: { light: 'file:homebridge-logo.svg', dark: 'file:homebridge-logo.svg' },
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["event"]}}',
+		description: 'Starts the workflow as soon as Homebridge pushes an event',
+		defaults: {
+			name: 'Homebridge Event Trigger',
+		},
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'homebridgeApi',
+				required: true,
+				testedBy: 'homebridgeApiTest',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Event',
+				name: 'event',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Button Pressed',
+						value: 'buttonPress',
+						description: 'Triggers when a stateless programmable switch or doorbell is pressed',
+					},
+					{
+						name: 'Characteristic Updated',
+						value: 'characteristicUpdate',
+						description: 'Triggers as soon as an accessory characteristic changes',
+					},
+					{
+						name: 'Log Line',
+						value: 'logLine',
+						description: 'Triggers when Homebridge writes a matching line to its log',
+					},
+				],
+				default: 'characteristicUpdate',
+			},
+
+			// Characteristic update filters
+			{
+				displayName: 'Accessories',
+				name: 'accessories',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. Front Door, 8a4c3e...',
+				description: 'Comma-separated unique IDs or names of the accessories to watch. Leave empty to watch all accessories.',
+				displayOptions: {
+					show: {
+						event: ['characteristicUpdate'],
+					},
+				},
+			},
+			{
+				displayName: 'Service Types',
+				name: 'serviceTypes',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. ContactSensor, MotionSensor',
+				description: 'Comma-separated service types to watch. Leave empty to watch all service types.',
+				displayOptions: {
+					show: {
+						event: ['characteristicUpdate'],
+					},
+				},
+			},
+			{
+				displayName: 'Characteristics',
+				name: 'characteristics',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. ContactSensorState, MotionDetected',
+				description: 'Comma-separated characteristic types to watch. Leave empty to watch all characteristics.',
+				displayOptions: {
+					show: {
+						event: ['characteristicUpdate'],
+					},
+				},
+			},
+
+			// Button press filters
+			{
+				displayName: 'Buttons',
+				name: 'buttons',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. Hallway Button, 8a4c3e...',
+				description: 'Comma-separated unique IDs or names of the buttons to watch. Leave empty to watch all buttons.',
+				displayOptions: {
+					show: {
+						event: ['buttonPress'],
+					},
+				},
+			},
+			{
+				displayName: 'Press Types',
+				name: 'pressTypes',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Single Press',
+						value: 'single',
+					},
+					{
+						name: 'Double Press',
+						value: 'double',
+					},
+					{
+						name: 'Long Press',
+						value: 'long',
+					},
+				],
+				default: [],
+				description: 'Press types to trigger on. Leave empty to trigger on all press types.',
+				displayOptions: {
+					show: {
+						event: ['buttonPress'],
+					},
+				},
+			},
+
+			// Log line filters
+			{
+				displayName: 'Pattern',
+				name: 'pattern',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. error|timed out',
+				description: 'Regular expression the message must match, case-insensitive. Leave empty to match all lines.',
+				displayOptions: {
+					show: {
+						event: ['logLine'],
+					},
+				},
+			},
+			{
+				displayName: 'Plugins',
+				name: 'plugins',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. Camera FFmpeg, Ring',
+				description: 'Comma-separated plugin prefixes, as shown in brackets in the log. Leave empty to match all plugins.',
+				displayOptions: {
+					show: {
+						event: ['logLine'],
+					},
+				},
+			},
+			{
+				displayName: 'Levels',
+				name: 'levels',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Debug',
+						value: 'debug',
+					},
+					{
+						name: 'Error',
+						value: 'error',
+					},
+					{
+						name: 'Info',
+						value: 'info',
+					},
+					{
+						name: 'Warning',
+						value: 'warn',
+					},
+				],
+				default: [],
+				description: 'Log levels to trigger on. Leave empty to trigger on all levels.',
+				displayOptions: {
+					show: {
+						event: ['logLine'],
+					},
+				},
+			},
+		],
+	};
+
+	methods = {
+		credentialTest: {
+			homebridgeApiTest,
+		},
+	};
+
+	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
+		const event = this.getNodeParameter('event') as string;
+
+		// A manual execution finishes with the first event
+		let resolveManualTrigger: (() => void) | undefined;
+		const emit = (items: INodeExecutionData[]) => {
+			this.emit([items]);
+			resolveManualTrigger?.();
+		};
+
+		let closeFunction: () => Promise<void> = async () => {};
+		if (event === 'characteristicUpdate') {
+			closeFunction = await watchAccessoryUpdates.call(this, emit);
+		} else if (event === 'buttonPress') {
+			closeFunction = await watchButtonPresses.call(this, emit);
+		} else if (event === 'logLine') {
+			closeFunction = await watchLogLines.call(this, emit);
+		}
+
+		const manualTriggerFunction = async () => {
+			await new Promise<void>((resolve) => {
+				resolveManualTrigger = resolve;
+			});
+		};
+
+		return {
+			closeFunction,
+			manualTriggerFunction,
+		};
+	}
+}
@@ -0,0 +1,658 @@
+/**
+ * Generic Functions for Homebridge Trigger Node
+ * Pollers that compare the server state with the state seen on the previous poll,
+ * and accessory helpers shared with the event trigger
+ */
+
+import { IDataObject, INodeExecutionData, IPollFunctions, ITriggerFunctions } from 'n8n-workflow';
+
+import { applyCredentialOptions, homebridgeApiRequest } from '../Homebridge/GenericFunctions';
+import {
+	IAccessory,
+	IAccessoryFilters,
+	IChildBridge,
+	IHomebridgeStatus,
+	IHomebridgeVersion,
+	INodeJsInfo,
+	IPlugin,
+} from '../Homebridge/types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const WATCHDOG_TIMEOUT = 10 * 1000; // ms before a status check counts as unreachable
+const AUTH_FAILURE_CODES = [401, 403, 412]; // bad credentials, missing permission, wrong 2FA code
+
+// Status endpoint and unit of each resource metric
+const RESOURCE_METRICS: Record<string, { endpoint: string; unit: string }> = {
+	cpuLoad: { endpoint: '/api/status/cpu', unit: '%' },
+	cpuTemperature: { endpoint: '/api/status/cpu', unit: '°C' },
+	memoryUsage: { endpoint: '/api/status/ram', unit: '%' },
+	throttled: { endpoint: '/api/status/rpi/throttled', unit: '' },
+};
+
+const UI_PACKAGE = 'homebridge-config-ui-x'; // the UI updates itself like a plugin
+
+// Packages whose GitHub releases are tagged v<version>
+const RELEASE_REPOSITORIES: Record<string, string> = {
+	homebridge: 'https://github.com/homebridge/homebridge',
+	[UI_PACKAGE]: 'https://github.com/homebridge/homebridge-config-ui-x',
+};
+
+// =============================================================================
+// FILTER HELPERS
+// =============================================================================
+
+/**
+ * Split a comma-separated filter parameter into lowercase entries
+ * @param value - Parameter value
+ * @returns Entries, empty when the filter is not set
+ */
+export function parseFilterList(value: string): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry) => entry !== '');
+}
+
+/**
+ * Check whether a value matches a filter list
+ * @param filter - Lowercase filter entries, an empty list matches everything
+ * @param candidates - Values that may match, e.g. an ID and a display name
+ * @returns True when the filter is empty or one of the candidates is in it
+ */
+export function matchesFilter(filter: string[], ...candidates: unknown[]): boolean {
+	if (!filter.length) {
+		return true;
+	}
+
+	return candidates.some(
+		(candidate) => candidate !== undefined && filter.includes(String(candidate).toLowerCase()),
+	);
+}
+
+/**
+ * Read the accessory, service type and characteristic filters of a trigger
+ * @param this - n8n poll or trigger context
+ * @returns Lowercase filter lists
+ */
+export function getAccessoryFilters(this: IPollFunctions | ITriggerFunctions): IAccessoryFilters {
+	return {
+		accessories: parseFilterList(this.getNodeParameter('accessories', '') as string),
+		serviceTypes: parseFilterList(this.getNodeParameter('serviceTypes', '') as string),
+		characteristics: parseFilterList(this.getNodeParameter('characteristics', '') as string),
+	};
+}
+
+/**
+ * Get the watched characteristic values of an accessory service
+ * @param accessory - Accessory service from /api/accessories
+ * @param filters - Accessory, service type and characteristic filters
+ * @returns Watched values, or undefined when the accessory itself is not watched
+ */
+export function getWatchedValues(
+	accessory: IAccessory,
+	filters: IAccessoryFilters,
+): IDataObject | undefined {
+	if (
+		!matchesFilter(filters.accessories, accessory.uniqueId, accessory.serviceName) ||
+		!matchesFilter(filters.serviceTypes, accessory.type, accessory.humanType)
+	) {
+		return undefined;
+	}
+
+	const values: IDataObject = {};
+	for (const [characteristic, value] of Object.entries(accessory.values ?? {})) {
+		if (matchesFilter(filters.characteristics, characteristic)) {
+			values[characteristic] = value;
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Store the state a poller compares the next poll against. Manual executions show the
+ * current state without moving the stored baseline, so they never store it.
+ * @param this - n8n poll context
+ * @param key - Key of the state in the node static data
+ * @param state - New state
+ * @returns True when the state was stored, false in manual executions
+ */
+function savePollState(this: IPollFunctions, key: string, state: IDataObject): boolean {
+	if (this.getMode() === 'manual') {
+		return false;
+	}
+
+	this.getWorkflowStaticData('node')[key] = state;
+	return true;
+}
+
+// =============================================================================
+// ACCESSORY POLLERS
+// =============================================================================
+
+/**
+ * Poll /api/accessories and emit the characteristics whose value changed since the last poll
+ * @param this - n8n poll context
+ * @returns One item per changed characteristic
+ */
+export async function pollCharacteristicChanges(this: IPollFunctions): Promise<INodeExecutionData[]> {
+	const filters = getAccessoryFilters.call(this);
+	const accessories = (await homebridgeApiRequest.call(this, 'GET', '/api/accessories')) as IAccessory[];
+
+	const previousValues = this.getWorkflowStaticData('node').accessoryValues as
+		| Record<string, IDataObject>
+		| undefined;
+	const currentValues: Record<string, IDataObject> = {};
+	const changes: INodeExecutionData[] = [];
+
+	for (const accessory of accessories) {
+		const values = getWatchedValues(accessory, filters);
+		if (!values) {
+			continue;
+		}
+		currentValues[accessory.uniqueId] = values;
+
+		// Nothing to compare against on the first poll, or for accessories added since
+		const previous = previousValues?.[accessory.uniqueId];
+		if (!previous) {
+			continue;
+		}
+
+		for (const [characteristic, value] of Object.entries(values)) {
+			if (characteristic in previous && previous[characteristic] !== value) {
+				changes.push({
+					json: getCharacteristicEvent(accessory, characteristic, previous[characteristic], value),
+				});
+			}
+		}
+	}
+
+	if (!savePollState.call(this, 'accessoryValues', currentValues) && !changes.length) {
+		return getSampleCharacteristic(accessories, currentValues);
+	}
+
+	return changes;
+}
+
+/**
+ * Get the fields identifying an accessory in trigger output
+ * @param accessory - Accessory service from /api/accessories
+ * @returns Accessory summary
+ */
+export function getAccessorySummary(accessory: IAccessory): IDataObject {
+	return {
+		uniqueId: accessory.uniqueId,
+		serviceName: accessory.serviceName,
+		type: accessory.type,
+		humanType: accessory.humanType,
+		accessoryInformation: accessory.accessoryInformation,
+		instance: accessory.instance,
+	};
+}
+
+/**
+ * Build the output of a characteristic change
+ * @param accessory - Accessory service the characteristic belongs to
+ * @param characteristic - Characteristic type, e.g. ContactSensorState
+ * @param oldValue - Previous value
+ * @param newValue - Current value
+ * @returns Event data
+ */
+export function getCharacteristicEvent(
+	accessory: IAccessory,
+	characteristic: string,
+	oldValue: unknown,
+	newValue: unknown,
+): IDataObject {
+	return {
+		event: 'characteristicChange',
+		uniqueId: accessory.uniqueId,
+		accessory: getAccessorySummary(accessory),
+		characteristic,
+		description: accessory.serviceCharacteristics?.find((c) => c.type === characteristic)
+			?.description,
+		oldValue: oldValue as IDataObject[string],
+		newValue: newValue as IDataObject[string],
+		timestamp: new Date().toISOString(),
+	};
+}
+
+/**
+ * Build a sample item from the current value of the first watched characteristic,
+ * so manual executions have data to map even when nothing changed
+ * @param accessories - Accessory services from /api/accessories
+ * @param currentValues - Watched values per accessory uniqueId
+ * @returns Sample item, or no items when nothing is watched
+ */
+function getSampleCharacteristic(
+	accessories: IAccessory[],
+	currentValues: Record<string, IDataObject>,
+): INodeExecutionData[] {
+	for (const accessory of accessories) {
+		const values = currentValues[accessory.uniqueId];
+		const characteristic = values && Object.keys(values)[0];
+		if (!characteristic) {
+			continue;
+		}
+
+		return [
+			{ json: getCharacteristicEvent(accessory, characteristic, null, values[characteristic]) },
+		];
+	}
+
+	return [];
+}
+
+// =============================================================================
+// STATUS POLLERS
+// =============================================================================
+
+/**
+ * Poll the child bridges and emit their status transitions. A bridge restarting goes
+ * through pending, so pending is only reported when it lasts longer than the grace period.
+ * @param this - n8n poll context
+ * @returns One item per child bridge whose status changed
+ */
+export async function pollChildBridgeStatus(this: IPollFunctions): Promise<INodeExecutionData[]> {
+	const bridgeFilter = parseFilterList(this.getNodeParameter('childBridges', '') as string);
+	const gracePeriod = (this.getNodeParameter('gracePeriod', 120) as number) * 1000;
+
+	const bridges = (await homebridgeApiRequest.call(
+		this,
+		'GET',
+		'/api/status/homebridge/child-bridges',
+	)) as IChildBridge[];
+
+	const previousStates = (this.getWorkflowStaticData('node').childBridges ?? {}) as Record<
+		string,
+		IDataObject
+	>;
+	const currentStates: Record<string, IDataObject> = {};
+	const transitions: INodeExecutionData[] = [];
+	const now = Date.now();
+
+	const watchedBridges = bridges.filter((bridge) =>
+		matchesFilter(bridgeFilter, bridge.username, bridge.displayName, bridge.plugin),
+	);
+
+	for (const bridge of watchedBridges) {
+		// Bridges seen for the first time only set the baseline
+		const previous = previousStates[bridge.username];
+		if (!previous) {
+			currentStates[bridge.username] = { status: bridge.status };
+			continue;
+		}
+
+		const reportedStatus = previous.status as string;
+		if (bridge.status === 'pending' && reportedStatus !== 'pending') {
+			const pendingSince = (previous.pendingSince as number) ?? now;
+			if (now - pendingSince < gracePeriod) {
+				currentStates[bridge.username] = { status: reportedStatus, pendingSince };
+				continue;
+			}
+		}
+
+		currentStates[bridge.username] = { status: bridge.status };
+		if (bridge.status !== reportedStatus) {
+			transitions.push({ json: getChildBridgeEvent(bridge, reportedStatus) });
+		}
+	}
+
+	if (
+		!savePollState.call(this, 'childBridges', currentStates) &&
+		!transitions.length &&
+		watchedBridges.length
+	) {
+		return [{ json: getChildBridgeEvent(watchedBridges[0], null) }];
+	}
+
+	return transitions;
+}
+
+/**
+ * Build the output of a child bridge status transition
+ * @param bridge - Child bridge from /api/status/homebridge/child-bridges
+ * @param previousStatus - Last reported status
+ * @returns Event data
+ */
+function getChildBridgeEvent(bridge: IChildBridge, previousStatus: string | null): IDataObject {
+	return {
+		event: 'childBridgeStatus',
+		username: bridge.username,
+		displayName: bridge.displayName,
+		plugin: bridge.plugin,
+		paired: bridge.paired,
+		previousStatus,
+		status: bridge.status,
+		timestamp: new Date().toISOString(),
+	};
+}
+
+/**
+ * Check the Homebridge UI and the Homebridge process, and emit down, unreachable,
+ * authentication failure and recovered events. Failures are only reported after
+ * several consecutive checks agree.
+ * @param this - n8n poll context
+ * @returns The event, or no items when the reported state did not change
+ */
+export async function pollServerStatus(this: IPollFunctions): Promise<INodeExecutionData[]> {
+	const failureThreshold = this.getNodeParameter('failureThreshold', 3) as number;
+	const credentials = await this.getCredentials('homebridgeApi');
+	const now = Date.now();
+
+	// The public settings endpoint answers whenever the UI is up, even if login fails
+	let observed = 'up';
+	let error: string | undefined;
+	let homebridgeStatus: IHomebridgeStatus | undefined;
+	try {
+		await this.helpers.httpRequest(
+			applyCredentialOptions(credentials, {
+				method: 'GET',
+				url: '/api/auth/settings',
+				json: true,
+				timeout: WATCHDOG_TIMEOUT,
+			}),
+		);
+		homebridgeStatus = (await homebridgeApiRequest.call(
+			this,
+			'GET',
+			'/api/status/homebridge',
+			undefined,
+			undefined,
+			{ timeout: WATCHDOG_TIMEOUT },
+		)) as IHomebridgeStatus;
+		if (homebridgeStatus.status !== 'up') {
+			observed = 'down';
+		}
+	} catch (requestError) {
+		// The UI answered, but refused the login or the token
+		const statusCode = Number(
+			requestError.httpCode ?? requestError.response?.status ?? requestError.cause?.response?.status,
+		);
+		observed = AUTH_FAILURE_CODES.includes(statusCode) ? 'authFailed' : 'unreachable';
+		error = requestError.message;
+	}
+
+	const previous = (this.getWorkflowStaticData('node').serverStatus ?? { reported: 'up' }) as IDataObject;
+	const state: IDataObject = { reported: previous.reported };
+	let change: string | undefined;
+
+	if (observed === 'up') {
+		if (previous.reported !== 'up') {
+			change = 'recovered';
+		}
+		state.reported = 'up';
+	} else {
+		// Count consecutive failures of the same kind, the outage starts with the first failure
+		state.outageStartedAt = previous.outageStartedAt ?? now;
+		state.failures = previous.candidate === observed ? (previous.failures as number) + 1 : 1;
+		state.candidate = observed;
+		if (state.failures >= failureThreshold && previous.reported !== observed) {
+			change = observed;
+			state.reported = observed;
+		}
+	}
+
+	const outageStartedAt = (state.outageStartedAt ?? previous.outageStartedAt) as number | undefined;
+	const event: IDataObject = {
+		event: 'serverStatus',
+		change: change ?? null,
+		status: observed,
+		previousStatus: previous.reported,
+		homebridgeStatus,
+		error,
+		consecutiveFailures: state.failures ?? 0,
+		outageStartedAt: outageStartedAt ? new Date(outageStartedAt).toISOString() : null,
+		outageDuration: outageStartedAt ? Math.round((now - outageStartedAt) / 1000) : 0,
+		timestamp: new Date(now).toISOString(),
+	};
+
+	if (!savePollState.call(this, 'serverStatus', state)) {
+		return [{ json: event }];
+	}
+
+	return change ? [{ json: event }] : [];
+}
+
+/**
+ * Poll a resource metric and emit when it crosses the threshold. The metric must stay at
+ * or above the threshold for the configured duration, and is cleared only once it drops
+ * below the threshold minus the hysteresis, so values hovering around it do not flap.
+ * @param this - n8n poll context
+ * @returns The exceeded or cleared event, or no items when nothing crossed
+ */
+export async function pollResourceThreshold(this: IPollFunctions): Promise<INodeExecutionData[]> {
+	const metric = this.getNodeParameter('metric') as string;
+	const { endpoint, unit } = RESOURCE_METRICS[metric];
+
+	// Throttling is on or off, any active flag crosses the threshold
+	const threshold = metric === 'throttled' ? 1 : (this.getNodeParameter('threshold', 0) as number);
+	const hysteresis = metric === 'throttled' ? 0 : (this.getNodeParameter('hysteresis', 0) as number);
+	const duration = (this.getNodeParameter('duration', 0) as number) * 60 * 1000;
+
+	const data = (await homebridgeApiRequest.call(this, 'GET', endpoint)) as IDataObject;
+	const value = getResourceMetricValue(metric, data);
+	const now = Date.now();
+
+	const previous = (this.getWorkflowStaticData('node').resourceThreshold ?? {}) as IDataObject;
+	let state: IDataObject = { active: previous.active ?? false };
+	let change: string | undefined;
+
+	if (isNaN(value)) {
+		// No reading, e.g. no temperature sensor: neither exceeded nor cleared
+		state = previous;
+	} else if (value >= threshold) {
+		state.aboveSince = previous.aboveSince ?? now;
+		if (!state.active && now - (state.aboveSince as number) >= duration) {
+			change = 'exceeded';
+			state.active = true;
+		}
+	} else if (value < threshold - hysteresis) {
+		if (state.active) {
+			change = 'cleared';
+		}
+		state.active = false;
+	} else if (state.active) {
+		// Still within the hysteresis band of an active alert
+		state.aboveSince = previous.aboveSince;
+	}
+
+	const aboveSince = state.aboveSince as number | undefined;
+	const event: IDataObject = {
+		event: 'resourceThreshold',
+		change: change ?? null,
+		metric,
+		value: isNaN(value) ? null : value,
+		unit,
+		threshold,
+		hysteresis,
+		aboveSince: aboveSince ? new Date(aboveSince).toISOString() : null,
+		...(data.cpuLoadHistory !== undefined && { cpuLoadHistory: data.cpuLoadHistory }),
+		...(data.memoryHistory !== undefined && { memoryHistory: data.memoryHistory }),
+		data,
+		timestamp: new Date(now).toISOString(),
+	};
+
+	if (!savePollState.call(this, 'resourceThreshold', state)) {
+		return [{ json: event }];
+	}
+
+	return change ? [{ json: event }] : [];
+}
+
+/**
+ * Read a resource metric from the response of its status endpoint
+ * @param metric - Metric name
+ * @param data - Response of /api/status/cpu, /api/status/ram or /api/status/rpi/throttled
+ * @returns Metric value, rounded to one decimal, or NaN when the server has no reading
+ */
+function getResourceMetricValue(metric: string, data: IDataObject): number {
+	// Number() would turn missing values into 0
+	const toNumber = (value: unknown) =>
+		value === null || value === undefined || value === '' ? NaN : Number(value);
+	let value = NaN;
+
+	if (metric === 'cpuLoad') {
+		value = toNumber(data.currentLoad);
+	} else if (metric === 'cpuTemperature') {
+		// Older servers return a number, newer ones the systeminformation object,
+		// which reports -1 or null without a sensor
+		const temperature = data.cpuTemperature as number | IDataObject;
+		value = toNumber(typeof temperature === 'object' ? temperature?.main : temperature);
+		if (value === -1) {
+			value = NaN;
+		}
+	} else if (metric === 'memoryUsage') {
+		const memory = (data.mem ?? data) as IDataObject;
+		const total = toNumber(memory.total);
+		const used = total - toNumber(memory.available ?? memory.free);
+		value = memory.usedPercent !== undefined ? toNumber(memory.usedPercent) : (used / total) * 100;
+	} else if (metric === 'throttled') {
+		// Flags about past events ("... Occurred") do not mean the Pi is throttled now
+		value = Object.entries(data).some(([flag, active]) => active === true && !/occurred/i.test(flag))
+			? 1
+			: 0;
+	}
+
+	return isFinite(value) ? Math.round(value * 10) / 10 : NaN;
+}
+
+// =============================================================================
+// UPDATE POLLERS
+// =============================================================================
+
+/**
+ * Poll the plugins, Homebridge, the UI and Node.js for updates, and emit each new
+ * version once. Versions already reported are kept in the static data.
+ * @param this - n8n poll context
+ * @returns One item per update not reported before
+ */
+export async function pollUpdates(this: IPollFunctions): Promise<INodeExecutionData[]> {
+	const components = this.getNodeParameter('components', []) as string[];
+	const includeChangelog = this.getNodeParameter('includeChangelog', false) as boolean;
+	const updates: IDataObject[] = [];
+
+	if (components.includes('plugins') || components.includes('ui')) {
+		const plugins = (await homebridgeApiRequest.call(this, 'GET', '/api/plugins')) as IPlugin[];
+		for (const plugin of plugins) {
+			const component = plugin.name === UI_PACKAGE ? 'ui' : 'plugins';
+			if (plugin.updateAvailable && components.includes(component)) {
+				updates.push({
+					component,
+					package: plugin.name,
+					displayName: plugin.displayName ?? plugin.name,
+					installedVersion: plugin.installedVersion,
+					latestVersion: plugin.latestVersion,
+					changelogUrl: getChangelogUrl(plugin.name, plugin.latestVersion, plugin.links),
+					links: plugin.links,
+				});
+			}
+		}
+	}
+
+	if (components.includes('homebridge')) {
+		const homebridge = (await homebridgeApiRequest.call(
+			this,
+			'GET',
+			'/api/status/homebridge-version',
+		)) as IHomebridgeVersion;
+		if (homebridge.updateAvailable) {
+			updates.push({
+				component: 'homebridge',
+				package: homebridge.name ?? 'homebridge',
+				displayName: 'Homebridge',
+				installedVersion: homebridge.installedVersion,
+				latestVersion: homebridge.latestVersion,
+				changelogUrl: getChangelogUrl(homebridge.name ?? 'homebridge', homebridge.latestVersion),
+			});
+		}
+	}
+
+	if (components.includes('nodejs')) {
+		const nodeJs = (await homebridgeApiRequest.call(this, 'GET', '/api/status/nodejs')) as INodeJsInfo;
+		if (nodeJs.updateAvailable) {
+			updates.push({
+				component: 'nodejs',
+				package: 'node',
+				displayName: 'Node.js',
+				installedVersion: nodeJs.currentVersion,
+				latestVersion: nodeJs.latestVersion,
+				changelogUrl: `https://github.com/nodejs/node/releases/tag/${nodeJs.latestVersion}`,
+			});
+		}
+	}
+
+	// Manual executions show every available update without marking it as reported
+	const manual = this.getMode() === 'manual';
+	const reported = (this.getWorkflowStaticData('node').reportedUpdates ?? {}) as IDataObject;
+	const currentlyAvailable: IDataObject = {};
+	const items: INodeExecutionData[] = [];
+
+	for (const update of updates) {
+		const packageName = update.package as string;
+		currentlyAvailable[packageName] = update.latestVersion;
+		if (!manual && reported[packageName] === update.latestVersion) {
+			continue;
+		}
+
+		// Node.js has no changelog in the UI, the plugin endpoint covers Homebridge and the UI too
+		if (includeChangelog && update.component !== 'nodejs') {
+			update.changelog = await getChangelog.call(this, packageName);
+		}
+
+		items.push({
+			json: {
+				event: 'updateAvailable',
+				...update,
+				timestamp: new Date().toISOString(),
+			},
+		});
+	}
+
+	// Keep only updates still available, so installed ones do not pile up in the static data
+	savePollState.call(this, 'reportedUpdates', currentlyAvailable);
+	return items;
+}
+
+/**
+ * Get the page listing the changes of a package version: the GitHub release of Homebridge
+ * and the UI, the GitHub releases of plugins hosted there, or the npm versions otherwise
+ * @param packageName - npm package name
+ * @param latestVersion - Version the package can be updated to
+ * @param links - Links of the plugin from /api/plugins
+ * @returns Changelog URL
+ */
+function getChangelogUrl(packageName: string, latestVersion?: string, links?: IDataObject): string {
+	if (RELEASE_REPOSITORIES[packageName] && latestVersion) {
+		return `${RELEASE_REPOSITORIES[packageName]}/releases/tag/v${latestVersion}`;
+	}
+
+	const repository = /^https?:\/\/github\.com\/[^/#?]+\/[^/#?]+/.exec(String(links?.homepage ?? ''));
+	if (repository) {
+		return `${repository[0].replace(/\.git$/, '')}/releases`;
+	}
+
+	return `https://www.npmjs.com/package/${packageName}?activeTab=versions`;
+}
+
+/**
+ * Get the changelog of a package from the UI
+ * @param this - n8n poll context
+ * @param packageName - npm package name
+ * @returns Changelog as markdown, or null when the package does not publish one
+ */
+async function getChangelog(this: IPollFunctions, packageName: string): Promise<string | null> {
+	try {
+		const response = (await homebridgeApiRequest.call(
+			this,
+			'GET',
+			`/api/plugins/changelog/${encodeURIComponent(packageName)}`,
+		)) as IDataObject;
+		return (response.changelog as string) ?? null;
+	} catch (error) {
+		return null;
+	}
+}
@@ -0,0 +1,312 @@
+import {
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { homebridgeApiTest } from '../Homebridge/GenericFunctions';
+import {
+	pollCharacteristicChanges,
+	pollChildBridgeStatus,
+	pollResourceThreshold,
+	pollServerStatus,
+	pollUpdates,
+} from './GenericFunctions';
+
+export class HomebridgeTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Homebridge Trigger',
+		name: 'homebridgeTrigger',
+		icon: { light: 'file:homebridge-logo.svg', dark: 'file:homebridge-logo.svg' },
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["event"]}}',
+		description: 'Starts the workflow when something changes on a Homebridge server',
+		defaults: {
+			name: 'Homebridge Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'homebridgeApi',
+				required: true,
+				testedBy: 'homebridgeApiTest',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Event',
+				name: 'event',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Characteristic Changed',
+						value: 'characteristicChange',
+						description: 'Triggers when the value of an accessory characteristic changes',
+					},
+					{
+						name: 'Child Bridge Status Changed',
+						value: 'childBridgeStatus',
+						description: 'Triggers when a child bridge goes down or comes back',
+					},
+					{
+						name: 'Resource Threshold Crossed',
+						value: 'resourceThreshold',
+						description: 'Triggers when CPU load, CPU temperature, memory usage or Raspberry Pi throttling crosses a threshold',
+					},
+					{
+						name: 'Server Status Changed',
+						value: 'serverStatus',
+						description: 'Triggers when Homebridge or its UI goes down, becomes unreachable, rejects the credential or recovers',
+					},
+					{
+						name: 'Update Available',
+						value: 'updateAvailable',
+						description: 'Triggers once for every new version of a plugin, Homebridge, the UI or Node.js',
+					},
+				],
+				default: 'characteristicChange',
+			},
+
+			// Characteristic change filters
+			{
+				displayName: 'Accessories',
+				name: 'accessories',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. Front Door, 8a4c3e...',
+				description: 'Comma-separated unique IDs or names of the accessories to watch. Leave empty to watch all accessories.',
+				displayOptions: {
+					show: {
+						event: ['characteristicChange'],
+					},
+				},
+			},
+			{
+				displayName: 'Service Types',
+				name: 'serviceTypes',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. ContactSensor, MotionSensor',
+				description: 'Comma-separated service types to watch. Leave empty to watch all service types.',
+				displayOptions: {
+					show: {
+						event: ['characteristicChange'],
+					},
+				},
+			},
+			{
+				displayName: 'Characteristics',
+				name: 'characteristics',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. ContactSensorState, MotionDetected',
+				description: 'Comma-separated characteristic types to watch. Leave empty to watch all characteristics.',
+				displayOptions: {
+					show: {
+						event: ['characteristicChange'],
+					},
+				},
+			},
+
+			// Child bridge status options
+			{
+				displayName: 'Child Bridges',
+				name: 'childBridges',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. 0E:3C:22:18:FD:0A, homebridge-camera-ffmpeg',
+				description: 'Comma-separated usernames, names or plugins of the child bridges to watch. Leave empty to watch all child bridges.',
+				displayOptions: {
+					show: {
+						event: ['childBridgeStatus'],
+					},
+				},
+			},
+			{
+				displayName: 'Grace Period (Seconds)',
+				name: 'gracePeriod',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 120,
+				description: 'How long a child bridge may stay pending, e.g. while restarting, before it is reported',
+				displayOptions: {
+					show: {
+						event: ['childBridgeStatus'],
+					},
+				},
+			},
+
+			// Server status options
+			{
+				displayName: 'Failure Threshold',
+				name: 'failureThreshold',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 3,
+				description: 'Number of consecutive failed checks before the server is reported down, unreachable or failing authentication',
+				displayOptions: {
+					show: {
+						event: ['serverStatus'],
+					},
+				},
+			},
+
+			// Resource threshold options
+			{
+				displayName: 'Metric',
+				name: 'metric',
+				type: 'options',
+				options: [
+					{
+						name: 'CPU Load (%)',
+						value: 'cpuLoad',
+					},
+					{
+						name: 'CPU Temperature (°C)',
+						value: 'cpuTemperature',
+					},
+					{
+						name: 'Memory Usage (%)',
+						value: 'memoryUsage',
+					},
+					{
+						name: 'Raspberry Pi Throttling',
+						value: 'throttled',
+						description: 'Under-voltage, frequency capping, throttling or soft temperature limit',
+					},
+				],
+				default: 'cpuTemperature',
+				displayOptions: {
+					show: {
+						event: ['resourceThreshold'],
+					},
+				},
+			},
+			{
+				displayName: 'Threshold',
+				name: 'threshold',
+				type: 'number',
+				default: 75,
+				description: 'Value at or above which the metric is exceeded',
+				displayOptions: {
+					show: {
+						event: ['resourceThreshold'],
+					},
+					hide: {
+						metric: ['throttled'],
+					},
+				},
+			},
+			{
+				displayName: 'Hysteresis',
+				name: 'hysteresis',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 5,
+				description: 'How far below the threshold the metric must drop before it is cleared',
+				displayOptions: {
+					show: {
+						event: ['resourceThreshold'],
+					},
+					hide: {
+						metric: ['throttled'],
+					},
+				},
+			},
+			{
+				displayName: 'Duration (Minutes)',
+				name: 'duration',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 5,
+				description: 'How long the metric must stay at or above the threshold before the trigger fires',
+				displayOptions: {
+					show: {
+						event: ['resourceThreshold'],
+					},
+				},
+			},
+
+			// Update options
+			{
+				displayName: 'Components',
+				name: 'components',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Homebridge',
+						value: 'homebridge',
+					},
+					{
+						name: 'Homebridge UI',
+						value: 'ui',
+					},
+					{
+						name: 'Node.js',
+						value: 'nodejs',
+					},
+					{
+						name: 'Plugins',
+						value: 'plugins',
+					},
+				],
+				default: ['homebridge', 'ui', 'nodejs', 'plugins'],
+				description: 'What to check for updates',
+				displayOptions: {
+					show: {
+						event: ['updateAvailable'],
+					},
+				},
+			},
+			{
+				displayName: 'Include Changelog Text',
+				name: 'includeChangelog',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to also add the full changelog of the package, when it publishes one. It can be long; every update links to it in changelogUrl.',
+				displayOptions: {
+					show: {
+						event: ['updateAvailable'],
+					},
+				},
+			},
+		],
+	};
+
+	methods = {
+		credentialTest: {
+			homebridgeApiTest,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const event = this.getNodeParameter('event') as string;
+
+		let items: INodeExecutionData[] = [];
+		if (event === 'characteristicChange') {
+			items = await pollCharacteristicChanges.call(this);
+		} else if (event === 'childBridgeStatus') {
+			items = await pollChildBridgeStatus.call(this);
+		} else if (event === 'resourceThreshold') {
+			items = await pollResourceThreshold.call(this);
+		} else if (event === 'serverStatus') {
+			items = await pollServerStatus.call(this);
+		} else if (event === 'updateAvailable') {
+			items = await pollUpdates.call(this);
+		}
+
+		return items.length ? [items] : null;
+	}
+}